@@ -0,0 +1,188 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import type { Octokit } from "@octokit/rest";
+import { execFileSync } from "child_process";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  DEFAULT_MAX_BATCH_PRS,
+  formatBatchId,
+  formatBatchName,
+  parseBatchOptions,
+  resolveBatch,
+  type BatchOptions,
+} from "./batch.ts";
+
+describe("parseBatchOptions", () => {
+  test("returns null without batch inputs", () => {
+    expect(parseBatchOptions({ maxPRs: "10" })).toBeNull();
+  });
+
+  test("reads PR lists, labels and ranges", () => {
+    expect(parseBatchOptions({ prs: "#12, 15\n12" })).toEqual({
+      prs: [12, 15, 12],
+      labels: [],
+      range: null,
+      maxPRs: DEFAULT_MAX_BATCH_PRS,
+    });
+    expect(
+      parseBatchOptions({ label: "docs, api", range: "v1.2.0..", maxPRs: "5" }),
+    ).toEqual({
+      prs: [],
+      labels: ["docs", "api"],
+      range: { from: "v1.2.0", to: "HEAD" },
+      maxPRs: 5,
+    });
+  });
+
+  test("rejects invalid inputs", () => {
+    expect(() => parseBatchOptions({ prs: "12, abc" })).toThrow(
+      "Invalid batch_prs entry: abc",
+    );
+    expect(() => parseBatchOptions({ range: "v1.2.0" })).toThrow(
+      "Invalid batch_range",
+    );
+    expect(() => parseBatchOptions({ range: "a..b..c" })).toThrow(
+      "Invalid batch_range",
+    );
+    expect(() => parseBatchOptions({ prs: "1", label: "docs" })).toThrow(
+      "batch_prs can't be combined",
+    );
+    expect(() => parseBatchOptions({ label: "docs", maxPRs: "0" })).toThrow(
+      "Invalid batch_max_prs",
+    );
+  });
+});
+
+describe("batch names", () => {
+  const options = (overrides: Partial<BatchOptions>): BatchOptions => ({
+    prs: [],
+    labels: [],
+    range: null,
+    maxPRs: 50,
+    ...overrides,
+  });
+
+  test("describes the batch", () => {
+    expect(formatBatchName(options({ prs: [3, 5] }))).toBe("#3, #5");
+    expect(
+      formatBatchName(
+        options({
+          labels: ["docs"],
+          range: { from: "v1.2.0", to: "v1.3.0" },
+        }),
+      ),
+    ).toBe("v1.2.0..v1.3.0 (label: docs)");
+    expect(formatBatchName(options({ labels: ["docs", "api"] }))).toBe(
+      "label: docs, api",
+    );
+  });
+
+  test("turns the name into a branch name part", () => {
+    expect(formatBatchId("v1.2.0..v1.3.0 (label: docs)")).toBe(
+      "v1.2.0-v1.3.0-label-docs",
+    );
+    expect(formatBatchId("#3, #5")).toBe("3-5");
+    const long = formatBatchId(`label: ${"x".repeat(80)}`);
+    expect(long).toMatch(/^label-x+-[0-9a-f]{8}$/);
+    expect(long.length).toBeLessThanOrEqual(60);
+  });
+});
+
+describe("resolveBatch", () => {
+  const repoRoot = mkdtempSync(join(tmpdir(), "batch-test-"));
+  const git = (...args: string[]) =>
+    execFileSync("git", args, {
+      cwd: repoRoot,
+      encoding: "utf-8",
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: "test",
+        GIT_AUTHOR_EMAIL: "test@example.com",
+        GIT_COMMITTER_NAME: "test",
+        GIT_COMMITTER_EMAIL: "test@example.com",
+      },
+    }).trim();
+  git("init", "-q");
+  git("commit", "-q", "--allow-empty", "-m", "Release 1.0");
+  git("tag", "v1.0.0");
+  const commitPRs = new Map<string, number[]>();
+  for (const numbers of [[4], [7], [], [9, 4]]) {
+    git("commit", "-q", "--allow-empty", "-m", "Change");
+    commitPRs.set(git("rev-parse", "HEAD"), numbers);
+  }
+
+  afterAll(() => {
+    rmSync(repoRoot, { recursive: true, force: true });
+  });
+
+  // PR 9 is unmerged, PR 7 is missing the docs label
+  const pulls: Record<number, { merged: boolean; labels: string[] }> = {
+    4: { merged: true, labels: ["docs"] },
+    7: { merged: true, labels: [] },
+    9: { merged: false, labels: ["docs"] },
+  };
+  const searchResults = [21, 3, 14];
+  const octokit = {
+    paginate: {
+      iterator: async function* () {
+        yield {
+          data: searchResults.map((number) => ({ number })),
+        };
+      },
+    },
+    rest: {
+      search: { issuesAndPullRequests: {} },
+      repos: {
+        listPullRequestsAssociatedWithCommit: async (params: {
+          commit_sha: string;
+        }) => ({
+          data: (commitPRs.get(params.commit_sha) || []).map((number) => ({
+            number,
+            merged_at: pulls[number]?.merged ? "2024-01-01T00:00:00Z" : null,
+            labels: (pulls[number]?.labels || []).map((name) => ({ name })),
+          })),
+        }),
+      },
+    },
+  } as unknown as Octokit;
+
+  const resolve = (inputs: Parameters<typeof parseBatchOptions>[0]) =>
+    resolveBatch(
+      octokit,
+      "acme",
+      "widgets",
+      repoRoot,
+      parseBatchOptions(inputs) as BatchOptions,
+    );
+
+  test("keeps the listed PRs once, in order", async () => {
+    expect(await resolve({ prs: "8, 2, 8" })).toEqual([8, 2]);
+  });
+
+  test("finds merged PRs in a range, in merge order", async () => {
+    expect(await resolve({ range: "v1.0.0.." })).toEqual([4, 7]);
+    expect(await resolve({ range: "v1.0.0..HEAD", label: "docs" })).toEqual([
+      4,
+    ]);
+    await expect(resolve({ range: "v0.9.0.." })).rejects.toThrow(
+      "Failed to list the commits in v0.9.0..HEAD",
+    );
+  });
+
+  test("finds merged PRs by label, sorted", async () => {
+    expect(await resolve({ label: "docs" })).toEqual([3, 14, 21]);
+  });
+
+  test("fails on empty batches and above the PR cap", async () => {
+    await expect(resolve({ range: "HEAD..", label: "docs" })).rejects.toThrow(
+      "No merged PRs found for HEAD..HEAD (label: docs)",
+    );
+    await expect(resolve({ label: "docs", maxPRs: "2" })).rejects.toThrow(
+      "label: docs has more than 2 PRs",
+    );
+    await expect(resolve({ range: "v1.0.0..", maxPRs: "1" })).rejects.toThrow(
+      "v1.0.0..HEAD has more than 1 PRs",
+    );
+  });
+});
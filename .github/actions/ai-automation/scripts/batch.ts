@@ -0,0 +1,233 @@
+#!/usr/bin/env bun
+
+/**
+ * Batch sources: several PRs handled in one run, e.g. for changelogs and
+ * release notes. A batch is a list of PR numbers, or the merged PRs in a
+ * tag range and/or with a set of labels.
+ */
+
+import type { Octokit } from "@octokit/rest";
+import { execFileSync } from "child_process";
+import { createHash } from "crypto";
+import { parseList } from "./utils.ts";
+
+export interface BatchOptions {
+  /** Explicit PR numbers */
+  prs: number[];
+  /** Labels every merged PR must have */
+  labels: string[];
+  /** Tag or commit range "from..to"; "to" defaults to HEAD */
+  range: { from: string; to: string } | null;
+  /** Upper bound on the number of PRs in a batch */
+  maxPRs: number;
+}
+
+/** Default for batch_max_prs; each PR is a separate set of API calls */
+export const DEFAULT_MAX_BATCH_PRS = 50;
+
+/**
+ * Parses the batch inputs. Returns null if none are set.
+ */
+export function parseBatchOptions(inputs: {
+  prs?: string;
+  label?: string;
+  range?: string;
+  maxPRs?: string;
+}): BatchOptions | null {
+  const prs = parseList(inputs.prs).map((entry) => {
+    const number = parseInt(entry.replace(/^#/, ""), 10);
+    if (!/^#?\d+$/.test(entry) || number < 1) {
+      throw new Error(
+        `Invalid batch_prs entry: ${entry}. Expected a PR number`,
+      );
+    }
+    return number;
+  });
+  const labels = parseList(inputs.label);
+
+  let range: BatchOptions["range"] = null;
+  const rangeInput = (inputs.range || "").trim();
+  if (rangeInput) {
+    const match = rangeInput.match(/^([^.\s]\S*?)\.\.(\S*)$/);
+    if (!match?.[1] || match[2]?.includes("..")) {
+      throw new Error(
+        `Invalid batch_range: ${rangeInput}. Expected 'from..to', e.g. 'v1.2.0..v1.3.0'`,
+      );
+    }
+    range = { from: match[1], to: match[2] || "HEAD" };
+  }
+
+  if (prs.length === 0 && labels.length === 0 && !range) {
+    return null;
+  }
+  if (prs.length > 0 && (labels.length > 0 || range)) {
+    throw new Error(
+      "batch_prs can't be combined with batch_label or batch_range",
+    );
+  }
+
+  const maxInput = (inputs.maxPRs || "").trim();
+  const maxPRs = maxInput ? parseInt(maxInput, 10) : DEFAULT_MAX_BATCH_PRS;
+  if (!/^\d+$/.test(maxInput || "0") || maxPRs < 1) {
+    throw new Error(
+      `Invalid batch_max_prs: ${inputs.maxPRs}. Expected a positive number`,
+    );
+  }
+  return { prs, labels, range, maxPRs };
+}
+
+/**
+ * Describes the batch for people, e.g. "v1.2.0..v1.3.0 (label: docs)"
+ */
+export function formatBatchName(options: BatchOptions): string {
+  if (options.prs.length > 0) {
+    return options.prs.map((number) => `#${number}`).join(", ");
+  }
+  const labels =
+    options.labels.length > 0 ? `label: ${options.labels.join(", ")}` : "";
+  if (!options.range) {
+    return labels;
+  }
+  const range = `${options.range.from}..${options.range.to}`;
+  return labels ? `${range} (${labels})` : range;
+}
+
+/**
+ * Turns the batch name into a branch name part, e.g. "v1.2.0-v1.3.0".
+ * Long names are cut and keep a short hash so they stay unique.
+ */
+export function formatBatchId(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/\.{2,}/g, "-")
+    .replace(/[^a-z0-9._-]+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^[-.]+|[-.]+$/g, "");
+  if (slug.length <= 60) {
+    return slug;
+  }
+  const hash = createHash("sha256").update(name).digest("hex").slice(0, 8);
+  return `${slug.slice(0, 51).replace(/[-.]+$/, "")}-${hash}`;
+}
+
+/**
+ * Finds merged PRs that have all of the labels
+ */
+async function findPRsByLabel(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  labels: string[],
+  limit: number,
+): Promise<number[]> {
+  const query = [
+    `repo:${owner}/${repo}`,
+    "is:pr",
+    "is:merged",
+    ...labels.map((label) => `label:"${label.replace(/"/g, "")}"`),
+  ].join(" ");
+  const numbers: number[] = [];
+  for await (const { data } of octokit.paginate.iterator(
+    octokit.rest.search.issuesAndPullRequests,
+    { q: query, per_page: 100 },
+  )) {
+    numbers.push(...data.map((item) => item.number));
+    // One more than the limit is enough to report that it was exceeded
+    if (numbers.length > limit) {
+      break;
+    }
+  }
+  return numbers;
+}
+
+/**
+ * Finds the PRs merged between two refs of the local checkout. Only the
+ * first-parent history is walked, so each merge or squash commit on the
+ * branch maps to its PR.
+ */
+async function findPRsInRange(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  repoRoot: string,
+  range: { from: string; to: string },
+  labels: string[],
+  limit: number,
+): Promise<number[]> {
+  let shas: string[];
+  try {
+    shas = execFileSync(
+      "git",
+      ["log", "--first-parent", "--format=%H", `${range.from}..${range.to}`],
+      { encoding: "utf-8", cwd: repoRoot, stdio: ["ignore", "pipe", "pipe"] },
+    )
+      .split("\n")
+      .filter((sha) => sha.length > 0);
+  } catch (error) {
+    throw new Error(
+      `Failed to list the commits in ${range.from}..${range.to}. Are both refs fetched? ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const numbers = new Set<number>();
+  // Oldest first, so the batch lists PRs in merge order
+  for (const sha of shas.reverse()) {
+    const { data: pulls } =
+      await octokit.rest.repos.listPullRequestsAssociatedWithCommit({
+        owner,
+        repo,
+        commit_sha: sha,
+      });
+    for (const pull of pulls) {
+      const names = pull.labels.map((label) => label.name);
+      if (pull.merged_at && labels.every((label) => names.includes(label))) {
+        numbers.add(pull.number);
+      }
+    }
+    if (numbers.size > limit) {
+      break;
+    }
+  }
+  return [...numbers];
+}
+
+/**
+ * Resolves the batch to PR numbers. Fails if there are no PRs, or more than
+ * maxPRs.
+ */
+export async function resolveBatch(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  repoRoot: string,
+  options: BatchOptions,
+): Promise<number[]> {
+  let numbers: number[];
+  if (options.prs.length > 0) {
+    numbers = [...new Set(options.prs)];
+  } else if (options.range) {
+    numbers = await findPRsInRange(
+      octokit,
+      owner,
+      repo,
+      repoRoot,
+      options.range,
+      options.labels,
+      options.maxPRs,
+    );
+  } else {
+    numbers = (
+      await findPRsByLabel(octokit, owner, repo, options.labels, options.maxPRs)
+    ).sort((a, b) => a - b);
+  }
+
+  if (numbers.length === 0) {
+    throw new Error(`No merged PRs found for ${formatBatchName(options)}`);
+  }
+  if (numbers.length > options.maxPRs) {
+    throw new Error(
+      `${formatBatchName(options)} has more than ${options.maxPRs} PRs. Narrow it down or raise batch_max_prs`,
+    );
+  }
+  return numbers;
+}
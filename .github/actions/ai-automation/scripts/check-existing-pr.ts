@@ -0,0 +1,93 @@
+#!/usr/bin/env bun
+
+/**
+ * Checks whether the open AI PR for the source PR was already generated from
+ * its current head, before any plan or prompt is prepared. If so, the run
+ * is skipped entirely. The AI PR records the head it was generated from in
+ * a hidden marker in its body.
+ */
+
+import * as core from "@actions/core";
+import { Octokit } from "@octokit/rest";
+import { findOpenPR, formatBranchName } from "./create-branch.ts";
+import {
+  getApiUrl,
+  getTargetRepository,
+  parseRepository,
+  parseSourceShaMarker,
+} from "./utils.ts";
+
+async function main() {
+  try {
+    core.setOutput("skip", "false");
+
+    // Only PRs have a head to compare, and dry runs leave existing AI PRs alone
+    const prNumber = process.env.PR_NUMBER;
+    if (process.env.SOURCE_TYPE !== "pr" || !prNumber) {
+      return;
+    }
+    if (process.env.DRY_RUN === "true") {
+      return;
+    }
+
+    const githubToken = process.env.GITHUB_TOKEN;
+    if (!githubToken) {
+      throw new Error("GITHUB_TOKEN environment variable is required");
+    }
+    const octokit = new Octokit({ auth: githubToken, baseUrl: getApiUrl() });
+
+    const source = parseRepository(process.env.REPOSITORY || "");
+    const { data: pr } = await octokit.rest.pulls.get({
+      owner: source.owner,
+      repo: source.repo,
+      pull_number: parseInt(prNumber, 10),
+    });
+
+    // Changes pushed to the source PR itself have no AI PR. A deleted fork
+    // leaves head.repo empty.
+    const isFork = pr.head.repo?.full_name !== pr.base.repo.full_name;
+    const fallback = process.env.FORK_FALLBACK || "pr";
+    if (
+      process.env.OUTPUT_MODE === "push-to-source" &&
+      (!isFork || fallback !== "pr")
+    ) {
+      return;
+    }
+
+    const targetRepository = process.env.TARGET_REPOSITORY || "";
+    const branchName = formatBranchName({
+      prefix: process.env.BRANCH_PREFIX || "ai/",
+      sourceType: "pr",
+      sourceNumber: prNumber,
+      recipe: process.env.RECIPE || "",
+      promptTemplate: process.env.PROMPT_TEMPLATE || "",
+      sourceRepository: process.env.REPOSITORY || "",
+      targetRepository,
+    });
+    // The AI PR is opened in the target repository, which may need its own token
+    const targetToken = process.env.TARGET_TOKEN;
+    const targetOctokit = targetToken
+      ? new Octokit({ auth: targetToken, baseUrl: getApiUrl() })
+      : octokit;
+    const { owner, repo } = parseRepository(getTargetRepository());
+    const existingPR = await findOpenPR(targetOctokit, owner, repo, branchName);
+    if (!existingPR || parseSourceShaMarker(existingPR.body) !== pr.head.sha) {
+      return;
+    }
+
+    console.log(
+      `${existingPR.html_url} was already generated from ${pr.head.sha}, skipping`,
+    );
+    core.setOutput("skip", "true");
+    core.setOutput("existing_pr_url", existingPR.html_url);
+    core.setOutput("existing_pr_number", String(existingPR.number));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    core.setFailed(`Failed to check for an existing AI PR: ${errorMessage}`);
+    process.exit(1);
+  }
+}
+
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,261 @@
+#!/usr/bin/env bun
+
+/**
+ * Decides whether untrusted users and text may start this run. The user who
+ * commented the trigger needs the required permission. So do the user behind
+ * any other trigger, the author of an issue and the author of an unmerged PR
+ * from a fork, unless fork_pr_policy allows it; merged PRs were accepted by
+ * a maintainer. With injection_scan, the PR or issue text
+ * and the added lines of the diff are scanned for instructions aimed at the
+ * AI. Failed checks either refuse the run or downgrade it to plan-only: the
+ * plan is posted for approval and nothing is changed until a maintainer
+ * approves it.
+ */
+
+import * as core from "@actions/core";
+import { Octokit, type RestEndpointMethodTypes } from "@octokit/rest";
+import { existsSync, readFileSync } from "fs";
+import { hasPermission, PERMISSION_LEVELS } from "./permissions.ts";
+import { scanForInjection, type InjectionFinding } from "./untrusted.ts";
+import { getApiUrl, parseList, parseRepository } from "./utils.ts";
+
+const FORK_PR_POLICIES = ["refuse", "plan-only", "allow"];
+const INJECTION_SCAN_MODES = ["off", "refuse", "plan-only"];
+
+type PullRequest = RestEndpointMethodTypes["pulls"]["get"]["response"]["data"];
+
+interface TrustContext {
+  octokit: Octokit;
+  owner: string;
+  repo: string;
+  requiredPermission: string;
+}
+
+interface TriggerEvent {
+  comment?: { user?: { login: string } };
+  sender?: { login: string };
+}
+
+function readChoice(
+  name: string,
+  value: string | undefined,
+  options: string[],
+): string {
+  const choice = (value || "").trim() || options[0] || "";
+  if (!options.includes(choice)) {
+    throw new Error(
+      `Invalid ${name}: "${choice}". Expected ${options.map((option) => `"${option}"`).join(", ")}`,
+    );
+  }
+  return choice;
+}
+
+function readEvent(): TriggerEvent {
+  const eventPath = process.env.GITHUB_EVENT_PATH;
+  if (!eventPath || !existsSync(eventPath)) {
+    return {};
+  }
+  return JSON.parse(readFileSync(eventPath, "utf-8")) as TriggerEvent;
+}
+
+async function isPermitted(
+  context: TrustContext,
+  login: string,
+): Promise<boolean> {
+  return (
+    context.requiredPermission === "none" ||
+    hasPermission(
+      context.octokit,
+      context.owner,
+      context.repo,
+      login,
+      context.requiredPermission,
+    )
+  );
+}
+
+/**
+ * Returns the reason the PR is untrusted, or null if it is trusted
+ */
+async function checkPullRequest(
+  context: TrustContext,
+  pr: PullRequest,
+): Promise<string | null> {
+  // A deleted fork leaves head.repo empty
+  const fromFork = pr.head.repo?.full_name !== pr.base.repo.full_name;
+  if (!fromFork || pr.merged_at) {
+    return null;
+  }
+  const author = pr.user.login;
+  if (await isPermitted(context, author)) {
+    return null;
+  }
+  return `PR #${pr.number} comes from a fork and @${author} has less than ${context.requiredPermission} permission`;
+}
+
+/**
+ * Scans the text of a PR: title, body and the lines its diff adds
+ */
+async function scanPullRequest(
+  context: TrustContext,
+  pr: PullRequest,
+): Promise<InjectionFinding[]> {
+  const findings = [
+    ...scanForInjection(`PR #${pr.number} title`, pr.title),
+    ...scanForInjection(`PR #${pr.number} body`, pr.body || ""),
+  ];
+  const files = await context.octokit.paginate(
+    context.octokit.rest.pulls.listFiles,
+    {
+      owner: context.owner,
+      repo: context.repo,
+      pull_number: pr.number,
+      per_page: 100,
+    },
+  );
+  for (const file of files) {
+    const added = (file.patch || "")
+      .split("\n")
+      .filter((line) => line.startsWith("+") && !line.startsWith("+++"))
+      .map((line) => line.slice(1))
+      .join("\n");
+    findings.push(
+      ...scanForInjection(`PR #${pr.number} diff of ${file.filename}`, added),
+    );
+  }
+  return findings;
+}
+
+async function main() {
+  try {
+    const requiredPermission = readChoice(
+      "required_permission",
+      process.env.REQUIRED_PERMISSION || "write",
+      PERMISSION_LEVELS,
+    );
+    const forkPolicy = readChoice(
+      "fork_pr_policy",
+      process.env.FORK_PR_POLICY,
+      FORK_PR_POLICIES,
+    );
+    const scanMode = readChoice(
+      "injection_scan",
+      process.env.INJECTION_SCAN,
+      INJECTION_SCAN_MODES,
+    );
+
+    const githubToken = process.env.GITHUB_TOKEN;
+    if (!githubToken) {
+      throw new Error("GITHUB_TOKEN environment variable is required");
+    }
+    const { owner, repo } = parseRepository(process.env.REPOSITORY || "");
+    const context: TrustContext = {
+      octokit: new Octokit({ auth: githubToken, baseUrl: getApiUrl() }),
+      owner,
+      repo,
+      requiredPermission,
+    };
+
+    const event = readEvent();
+    const commenter = event.comment?.user?.login;
+    if (commenter && !(await isPermitted(context, commenter))) {
+      throw new Error(
+        `@${commenter} needs ${requiredPermission} permission on ${owner}/${repo} to trigger this automation`,
+      );
+    }
+
+    const untrusted: string[] = [];
+    // Without a comment, the user who opened, labeled or pushed to the source
+    // started the run
+    const sender = event.sender?.login;
+    if (!commenter && sender && !(await isPermitted(context, sender))) {
+      untrusted.push(
+        `@${sender} triggered this run and has less than ${requiredPermission} permission`,
+      );
+    }
+
+    const sourceType = process.env.SOURCE_TYPE;
+    const findings: InjectionFinding[] = [];
+    if (sourceType === "issue") {
+      const { data: issue } = await context.octokit.rest.issues.get({
+        owner,
+        repo,
+        issue_number: parseInt(process.env.ISSUE_NUMBER || "", 10),
+      });
+      // A deleted account leaves the author empty
+      const author = issue.user?.login || "ghost";
+      if (!(await isPermitted(context, author))) {
+        untrusted.push(
+          `Issue #${issue.number} was opened by @${author}, who has less than ${requiredPermission} permission`,
+        );
+      }
+      if (scanMode !== "off") {
+        findings.push(
+          ...scanForInjection(`issue #${issue.number} title`, issue.title),
+          ...scanForInjection(`issue #${issue.number} body`, issue.body || ""),
+        );
+      }
+    } else {
+      const numbers =
+        sourceType === "batch"
+          ? parseList(process.env.PR_NUMBERS)
+          : [process.env.PR_NUMBER || ""];
+      for (const number of numbers) {
+        const { data: pr } = await context.octokit.rest.pulls.get({
+          owner,
+          repo,
+          pull_number: parseInt(number, 10),
+        });
+        const reason = await checkPullRequest(context, pr);
+        if (reason) {
+          untrusted.push(reason);
+        }
+        if (scanMode !== "off") {
+          findings.push(...(await scanPullRequest(context, pr)));
+        }
+      }
+    }
+
+    const planOnly: string[] = [];
+    if (untrusted.length > 0 && forkPolicy !== "allow") {
+      if (forkPolicy === "refuse") {
+        throw new Error(`${untrusted.join("; ")}. See fork_pr_policy.`);
+      }
+      planOnly.push(...untrusted);
+    }
+    if (findings.length > 0) {
+      for (const finding of findings) {
+        core.warning(
+          `Suspicious text in ${finding.source} (${finding.pattern}): ${finding.excerpt}`,
+        );
+      }
+      const summary = `Found ${findings.length} suspicious instruction(s) in ${[...new Set(findings.map((finding) => finding.source))].join(", ")}`;
+      if (scanMode === "refuse") {
+        throw new Error(`${summary}. See injection_scan.`);
+      }
+      planOnly.push(summary);
+    }
+
+    if (planOnly.length > 0) {
+      // Plan-only needs a PR or issue to post the plan on
+      if (sourceType === "batch") {
+        throw new Error(
+          `${planOnly.join("; ")}. A batch can't run plan-only, so it is refused.`,
+        );
+      }
+      console.log(
+        `Running plan-only, the plan needs a maintainer's approval: ${planOnly.join("; ")}`,
+      );
+    }
+    core.setOutput("plan_only", planOnly.length > 0 ? "true" : "false");
+    core.setOutput("findings", String(findings.length));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    core.setFailed(`Trust check failed: ${errorMessage}`);
+    process.exit(1);
+  }
+}
+
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,140 @@
+import { describe, expect, test } from "bun:test";
+import type { Octokit } from "@octokit/rest";
+import {
+  findMarkedComment,
+  formatCommentMarker,
+  upsertMarkedComment,
+} from "./comments.ts";
+
+const MARKER = formatCommentMarker("status", "ci");
+
+interface Comment {
+  id: number;
+  body: string;
+  html_url: string;
+  user: { login: string };
+  performed_via_github_app: { slug: string } | null;
+}
+
+function comment(id: number, login: string, body: string, app = false) {
+  return {
+    id,
+    body,
+    html_url: `https://github.com/acme/widgets/issues/7#issuecomment-${id}`,
+    user: { login },
+    performed_via_github_app: app ? { slug: "github-actions" } : null,
+  };
+}
+
+/**
+ * Octokit stand-in holding an issue's comments. A null login makes the token
+ * an app token, which can't look up its own user.
+ */
+function mockOctokit(tokenLogin: string | null, comments: Comment[]) {
+  const octokit = {
+    paginate: async () => comments,
+    rest: {
+      issues: { listComments: {} },
+      users: {
+        getAuthenticated: async () => {
+          if (!tokenLogin) {
+            throw Object.assign(new Error("Forbidden"), { status: 403 });
+          }
+          return { data: { login: tokenLogin } };
+        },
+      },
+    },
+  };
+  return octokit as unknown as Octokit;
+}
+
+describe("findMarkedComment", () => {
+  const find = (octokit: Octokit) =>
+    findMarkedComment(octokit, "acme", "widgets", 7, MARKER);
+
+  test("finds the token's latest marked comment", async () => {
+    const octokit = mockOctokit("ai-bot", [
+      comment(1, "ai-bot", `old\n${MARKER}`),
+      comment(2, "ai-bot", "unmarked"),
+      comment(3, "ai-bot", `new\n${MARKER}`),
+    ]);
+    expect((await find(octokit))?.id).toBe(3);
+  });
+
+  test("ignores the marker in comments by other users", async () => {
+    const octokit = mockOctokit("ai-bot", [
+      comment(1, "ai-bot", `mine\n${MARKER}`),
+      comment(2, "mallory", `forged\n${MARKER}`),
+    ]);
+    expect((await find(octokit))?.id).toBe(1);
+    expect(
+      await find(
+        mockOctokit("ai-bot", [comment(2, "mallory", `forged\n${MARKER}`)]),
+      ),
+    ).toBeNull();
+  });
+
+  test("accepts only app comments for app tokens", async () => {
+    const octokit = mockOctokit(null, [
+      comment(1, "github-actions[bot]", `app\n${MARKER}`, true),
+      comment(2, "mallory", `forged\n${MARKER}`),
+    ]);
+    expect((await find(octokit))?.id).toBe(1);
+  });
+});
+
+describe("upsertMarkedComment", () => {
+  test("updates the marked comment or creates one", async () => {
+    const calls: Array<[string, Record<string, unknown>]> = [];
+    const respond =
+      (name: string) => async (params: Record<string, unknown>) => {
+        calls.push([name, params]);
+        return { data: comment(9, "ai-bot", String(params.body)) };
+      };
+    const withComments = (comments: Comment[]) => {
+      const octokit = mockOctokit("ai-bot", comments) as unknown as {
+        rest: { issues: Record<string, unknown> };
+      };
+      octokit.rest.issues.updateComment = respond("update");
+      octokit.rest.issues.createComment = respond("create");
+      return octokit as unknown as Octokit;
+    };
+
+    await upsertMarkedComment(
+      withComments([comment(4, "ai-bot", MARKER)]),
+      "acme",
+      "widgets",
+      7,
+      MARKER,
+      "Running\n",
+    );
+    await upsertMarkedComment(
+      withComments([comment(5, "mallory", MARKER)]),
+      "acme",
+      "widgets",
+      7,
+      MARKER,
+      "Running",
+    );
+    expect(calls).toEqual([
+      [
+        "update",
+        {
+          owner: "acme",
+          repo: "widgets",
+          comment_id: 4,
+          body: `Running\n\n${MARKER}`,
+        },
+      ],
+      [
+        "create",
+        {
+          owner: "acme",
+          repo: "widgets",
+          issue_number: 7,
+          body: `Running\n\n${MARKER}`,
+        },
+      ],
+    ]);
+  });
+});
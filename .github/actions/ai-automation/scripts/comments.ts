@@ -0,0 +1,108 @@
+#!/usr/bin/env bun
+
+/**
+ * Comments on the source PR or issue that are found again by a hidden marker
+ * and updated in place instead of being posted anew on every run
+ */
+
+import { Octokit } from "@octokit/rest";
+import { getErrorStatus } from "./utils.ts";
+
+export interface MarkedComment {
+  id: number;
+  body: string;
+  html_url: string;
+}
+
+/**
+ * Formats a hidden marker identifying a comment of the given kind and key
+ */
+export function formatCommentMarker(kind: string, key: string): string {
+  return `<!-- github-ai-actions:${kind}=${key} -->`;
+}
+
+/**
+ * Gets the login the token belongs to. App installation tokens, including
+ * the workflow's GITHUB_TOKEN, can't look up their own user and get null.
+ */
+async function getTokenLogin(octokit: Octokit): Promise<string | null> {
+  try {
+    const { data } = await octokit.rest.users.getAuthenticated();
+    return data.login;
+  } catch (error) {
+    if (getErrorStatus(error) === 403) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Finds the most recent comment containing the marker that was posted with
+ * the same identity as the token. Anyone can copy the marker into their own
+ * comment, so comments by others are ignored. For app tokens, comments
+ * posted by an app are accepted, which users can't fake.
+ */
+export async function findMarkedComment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  marker: string,
+): Promise<MarkedComment | null> {
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+    owner,
+    repo,
+    issue_number: issueNumber,
+    per_page: 100,
+  });
+  const login = await getTokenLogin(octokit);
+  const comment = comments.findLast(
+    (candidate) =>
+      candidate.body?.includes(marker) &&
+      (login
+        ? candidate.user?.login === login
+        : Boolean(candidate.performed_via_github_app)),
+  );
+  return comment
+    ? { id: comment.id, body: comment.body || "", html_url: comment.html_url }
+    : null;
+}
+
+/**
+ * Updates the token's comment containing the marker, or creates it. The
+ * marker is appended to the body so the comment can be found again.
+ */
+export async function upsertMarkedComment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  marker: string,
+  body: string,
+): Promise<MarkedComment> {
+  const fullBody = `${body.trimEnd()}\n\n${marker}`;
+  const existing = await findMarkedComment(
+    octokit,
+    owner,
+    repo,
+    issueNumber,
+    marker,
+  );
+  if (existing) {
+    const { data } = await octokit.rest.issues.updateComment({
+      owner,
+      repo,
+      comment_id: existing.id,
+      body: fullBody,
+    });
+    return { id: data.id, body: data.body || "", html_url: data.html_url };
+  }
+  const { data } = await octokit.rest.issues.createComment({
+    owner,
+    repo,
+    issue_number: issueNumber,
+    body: fullBody,
+  });
+  return { id: data.id, body: data.body || "", html_url: data.html_url };
+}
@@ -0,0 +1,25 @@
+import { describe, expect, test } from "bun:test";
+import { resolveOutputMode } from "./commit-and-push.ts";
+
+describe("resolveOutputMode", () => {
+  test("posts oversized changes for the source PR as a suggestion", () => {
+    expect(resolveOutputMode("push-to-source", "draft", false)).toBe("comment");
+    expect(resolveOutputMode("push-to-source", "patch", false)).toBe(
+      "push-to-source",
+    );
+    expect(resolveOutputMode("push-to-source", null, false)).toBe(
+      "push-to-source",
+    );
+  });
+
+  test("posts unverified changes for the source PR as a suggestion", () => {
+    expect(resolveOutputMode("push-to-source", null, true)).toBe("comment");
+    expect(resolveOutputMode("pr", null, true)).toBe("pr");
+  });
+
+  test("keeps the other output modes", () => {
+    expect(resolveOutputMode("pr", "draft", false)).toBe("pr");
+    expect(resolveOutputMode("comment", "draft", false)).toBe("comment");
+    expect(resolveOutputMode("dry-run", "draft", false)).toBe("dry-run");
+  });
+});
@@ -5,20 +5,111 @@
  */
 
 import * as core from "@actions/core";
+import { Octokit } from "@octokit/rest";
 import { execFileSync } from "child_process";
+import { writeFileSync } from "fs";
+import {
+  appendTrailers,
+  DEFAULT_COMMIT_MESSAGE_PATTERN,
+  formatCoAuthorTrailer,
+  groupChanges,
+  parseCommitSplit,
+  readAssistantMessage,
+} from "./commits.ts";
+import { pushCommitsViaApi } from "./git-data.ts";
+import {
+  checkSizeLimits,
+  findOutOfScopePaths,
+  listChangedPaths,
+  measureStagedChanges,
+  parseSizeLimit,
+  parseSizeLimitAction,
+  revertPaths,
+  type SizeLimit,
+  type SizeLimitAction,
+} from "./guardrails.ts";
+import {
+  loadVariablesFile,
+  renderTemplate,
+  type TemplateVariables,
+} from "./template.ts";
+import {
+  checkDeclaredFiles,
+  parsePlanFormat,
+  parseStructuredPlan,
+} from "./plan.ts";
+import {
+  getApiUrl,
+  getErrorStatus,
+  getTargetRepository,
+  getTargetRoot,
+  parseList,
+  parseRepository,
+} from "./utils.ts";
 
-function main() {
+const DEFAULT_COMMIT_MESSAGE_TEMPLATE =
+  "chore{{#if COMMIT_GROUP}}({{COMMIT_GROUP}}){{/if}}: Automated changes from {{PROVIDER}} for {{#if BATCH_NAME}}{{BATCH_NAME}}{{else}}{{#if ISSUE_NUMBER}}issue #{{ISSUE_NUMBER}}{{else}}PR #{{PR_NUMBER}}{{/if}}{{/if}}";
+
+/**
+ * Works out where the changes go. The source PR's branch can't be pushed as
+ * a draft, so changes that would open a draft PR (oversized or unverified)
+ * are posted as a suggestion comment on the source PR instead.
+ */
+export function resolveOutputMode(
+  outputMode: string,
+  sizeLimitAction: SizeLimitAction | null,
+  unverified: boolean,
+): string {
+  if (
+    outputMode === "push-to-source" &&
+    (sizeLimitAction === "draft" || unverified)
+  ) {
+    return "comment";
+  }
+  return outputMode;
+}
+
+async function main() {
   try {
     const branchName = process.env.BRANCH_NAME;
     if (!branchName) {
       throw new Error("BRANCH_NAME environment variable is required");
     }
 
-    const prNumber = process.env.PR_NUMBER || "unknown";
     const provider = process.env.PROVIDER || "ai";
 
-    // Determine working directory (repository root, not action path)
-    const repoRoot = process.env.GITHUB_WORKSPACE || process.cwd();
+    // Determine working directory (target repository root, not action path)
+    const repoRoot = getTargetRoot();
+
+    // Take the assistant's own commit message out of the working tree first
+    const commitMessageFile = process.env.COMMIT_MESSAGE_FILE;
+    const assistantMessage = commitMessageFile
+      ? readAssistantMessage(
+          repoRoot,
+          commitMessageFile,
+          process.env.COMMIT_MESSAGE_PATTERN || DEFAULT_COMMIT_MESSAGE_PATTERN,
+        )
+      : null;
+
+    // Fold commits the assistant made itself back into the working tree, so
+    // the checks below and the commits made here cover all of its changes
+    const baseSha = process.env.BASE_SHA;
+    if (!baseSha) {
+      throw new Error("BASE_SHA environment variable is required");
+    }
+    const headSha = execFileSync("git", ["rev-parse", "HEAD"], {
+      encoding: "utf-8",
+      cwd: repoRoot,
+    }).trim();
+    if (headSha !== baseSha) {
+      console.log(
+        `The AI assistant committed on its own, resetting to ${baseSha} and keeping its changes`,
+      );
+      execFileSync("git", ["reset", "-q", "--soft", baseSha], {
+        stdio: "pipe",
+        cwd: repoRoot,
+      });
+    }
 
     // Check if there are any changes
     let hasChanges = false;
@@ -35,6 +126,41 @@ function main() {
       // Assume no changes if we can't check
     }
 
+    // Keep changes within the allowed paths
+    if (hasChanges) {
+      const outOfScope = findOutOfScopePaths(listChangedPaths(repoRoot), {
+        allowed: parseList(process.env.ALLOWED_PATHS),
+        blocked: parseList(process.env.BLOCKED_PATHS),
+      });
+      if (outOfScope.length > 0) {
+        const rejected = outOfScope.flatMap((change) =>
+          change.originalPath
+            ? [change.originalPath, change.path]
+            : [change.path],
+        );
+        console.log("Changes outside the allowed paths:");
+        for (const path of rejected) {
+          console.log(`  ${path}`);
+        }
+        core.setOutput("rejected_paths", rejected.join("\n"));
+
+        const policy = process.env.PATH_POLICY || "revert";
+        if (policy === "fail") {
+          throw new Error(
+            `The AI assistant changed paths outside the allowed scope: ${rejected.join(", ")}`,
+          );
+        }
+        if (policy !== "revert") {
+          throw new Error(
+            `Invalid path_policy: ${policy}. Expected 'revert' or 'fail'`,
+          );
+        }
+        revertPaths(repoRoot, outOfScope);
+        console.log(`Reverted ${rejected.length} out-of-scope path(s)`);
+        hasChanges = listChangedPaths(repoRoot).length > 0;
+      }
+    }
+
     if (!hasChanges) {
       console.log("No changes detected, skipping commit and push");
       core.setOutput("has_changes", "false");
@@ -42,39 +168,278 @@ function main() {
     }
 
     // Configure git user
-    execFileSync("git", ["config", "user.name", "github-ai-actions[bot]"], {
+    const authorName =
+      process.env.COMMIT_AUTHOR_NAME || "github-ai-actions[bot]";
+    const authorEmail =
+      process.env.COMMIT_AUTHOR_EMAIL ||
+      "github-ai-actions[bot]@users.noreply.github.com";
+    execFileSync("git", ["config", "user.name", authorName], {
       stdio: "pipe",
       cwd: repoRoot,
     });
-    execFileSync(
-      "git",
-      ["config", "user.email", "github-ai-actions[bot]@users.noreply.github.com"],
-      {
-        stdio: "pipe",
-        cwd: repoRoot,
-      },
-    );
-
-    // Stage all changes
-    execFileSync("git", ["add", "-A"], {
+    execFileSync("git", ["config", "user.email", authorEmail], {
       stdio: "pipe",
       cwd: repoRoot,
     });
 
-    // Commit changes
-    const commitMessage = `chore: Automated changes from ${provider} for PR #${prNumber}`;
-    execFileSync("git", ["commit", "-m", commitMessage], {
+    // Stage all changes
+    execFileSync("git", ["add", "-A"], {
       stdio: "pipe",
       cwd: repoRoot,
     });
 
-    // Push to remote
-    execFileSync("git", ["push", "origin", branchName], {
-      stdio: "pipe",
-      cwd: repoRoot,
-    });
+    // Measure all of the assistant's changes against the size limits
+    const defaultAction = parseSizeLimitAction(process.env.SIZE_LIMIT_ACTION);
+    const limits = [
+      parseSizeLimit(
+        "max_changed_files",
+        "files",
+        process.env.MAX_CHANGED_FILES,
+        defaultAction,
+      ),
+      parseSizeLimit(
+        "max_changed_lines",
+        "lines",
+        process.env.MAX_CHANGED_LINES,
+        defaultAction,
+      ),
+      parseSizeLimit(
+        "max_deleted_files",
+        "deletedFiles",
+        process.env.MAX_DELETED_FILES,
+        defaultAction,
+      ),
+    ].filter((limit): limit is SizeLimit => limit !== null);
+    const size = measureStagedChanges(repoRoot, baseSha);
+    console.log(
+      `Changed ${size.files} file(s), ${size.lines} line(s), deleted ${size.deletedFiles} file(s)`,
+    );
+    core.setOutput("changed_files", String(size.files));
+    core.setOutput("changed_lines", String(size.lines));
+    core.setOutput("deleted_files", String(size.deletedFiles));
+
+    const sizeCheck = checkSizeLimits(size, limits);
+    core.setOutput("size_limit_action", sizeCheck.action || "");
+    core.setOutput("size_limit_violations", sizeCheck.violations.join("\n"));
+    if (sizeCheck.action === "fail") {
+      throw new Error(
+        `Changes exceed the size limits (${sizeCheck.violations.join(", ")})`,
+      );
+    }
+    if (sizeCheck.action) {
+      console.warn(
+        `Changes exceed the size limits (${sizeCheck.violations.join(", ")}), action: ${sizeCheck.action}`,
+      );
+    }
+
+    const configuredMode = process.env.OUTPUT_MODE || "pr";
+    const unverified =
+      process.env.VERIFICATION_STATUS === "failed" &&
+      process.env.VERIFY_FAILURE_ACTION !== "push";
+    const outputMode = resolveOutputMode(
+      configuredMode,
+      sizeCheck.action,
+      unverified,
+    );
+    if (outputMode !== configuredMode) {
+      console.warn(
+        "Not pushing the changes to the source PR's branch, posting them as a suggestion comment instead",
+      );
+    }
+    core.setOutput("output_mode", outputMode);
+
+    // Compare the changes with the files a structured plan declared
+    const plan = process.env.PLAN || "";
+    if (plan && parsePlanFormat(process.env.PLAN_FORMAT) === "structured") {
+      const changedPaths = listChangedPaths(repoRoot).flatMap((change) =>
+        change.originalPath
+          ? [change.originalPath, change.path]
+          : [change.path],
+      );
+      const { undeclared, untouched } = checkDeclaredFiles(
+        parseStructuredPlan(plan),
+        changedPaths,
+      );
+      if (undeclared.length > 0) {
+        console.warn(
+          `Changed files not declared in the plan: ${undeclared.join(", ")}`,
+        );
+      }
+      if (untouched.length > 0) {
+        console.log(
+          `Files declared in the plan but not changed: ${untouched.join(", ")}`,
+        );
+      }
+      core.setOutput("undeclared_paths", undeclared.join("\n"));
+      core.setOutput("untouched_plan_files", untouched.join("\n"));
+    }
+
+    // Render commit messages with the same variables as the PR templates
+    const variables: TemplateVariables = {
+      ...loadVariablesFile(process.env.VARIABLES_FILE),
+      PROVIDER: provider,
+      AI_COMMIT_MESSAGE: assistantMessage || "",
+    };
+    for (const name of ["PR_NUMBER", "ISSUE_NUMBER", "PR_AUTHOR"]) {
+      const value = process.env[name];
+      if (value) {
+        variables[name] = value;
+      }
+    }
+    const messageTemplate =
+      process.env.COMMIT_MESSAGE_TEMPLATE || DEFAULT_COMMIT_MESSAGE_TEMPLATE;
+    const renderOptions = {
+      strict: process.env.STRICT_TEMPLATES === "true",
+      workspace: process.env.GITHUB_WORKSPACE || process.cwd(),
+    };
+
+    const githubToken = process.env.GITHUB_TOKEN;
+    const octokit = githubToken
+      ? new Octokit({ auth: githubToken, baseUrl: getApiUrl() })
+      : null;
+
+    const trailers: string[] = [];
+    const prAuthor = String(variables.PR_AUTHOR || "");
+    if (process.env.CO_AUTHOR_SOURCE_AUTHOR === "true" && octokit) {
+      const trailer = await formatCoAuthorTrailer(octokit, prAuthor);
+      if (trailer) {
+        trailers.push(trailer);
+      }
+    }
+
+    // Commit changes, one commit per group when splitting
+    const split = parseCommitSplit(process.env.COMMIT_SPLIT);
+    execFileSync("git", ["reset", "-q"], { stdio: "pipe", cwd: repoRoot });
+    const groups = groupChanges(repoRoot, listChangedPaths(repoRoot), split);
+    for (const group of groups) {
+      const message =
+        split === "none" && assistantMessage
+          ? assistantMessage
+          : renderTemplate(
+              messageTemplate,
+              {
+                ...variables,
+                COMMIT_GROUP: group.name,
+                COMMIT_FILES: group.paths,
+              },
+              renderOptions,
+            ).trim();
+      if (!message) {
+        throw new Error("The rendered commit message is empty");
+      }
+      execFileSync(
+        "git",
+        split === "none" ? ["add", "-A"] : ["add", "-A", "--", ...group.paths],
+        { stdio: "pipe", cwd: repoRoot },
+      );
+      execFileSync("git", ["commit", "-m", appendTrailers(message, trailers)], {
+        stdio: "pipe",
+        cwd: repoRoot,
+      });
+      console.log(
+        `Committed ${group.paths.length} path(s)${group.name ? ` in ${group.name}` : ""}`,
+      );
+    }
+
+    core.setOutput("base_sha", baseSha);
+    core.setOutput(
+      "diff_stat",
+      execFileSync("git", ["diff", "--stat", baseSha, "HEAD"], {
+        encoding: "utf-8",
+        cwd: repoRoot,
+      }).trimEnd(),
+    );
+
+    const commitBackend = process.env.COMMIT_BACKEND || "git";
+    if (commitBackend !== "git" && commitBackend !== "api") {
+      throw new Error(
+        `Invalid commit_backend: ${commitBackend}. Expected 'git' or 'api'`,
+      );
+    }
+    // The source PR's head that create-branch checked out; pushing refuses
+    // to overwrite the branch if it moved since then
+    const pushToSource = outputMode === "push-to-source";
+    const expectedHeadSha = process.env.EXPECTED_HEAD_SHA || "";
+    if (pushToSource && !expectedHeadSha) {
+      throw new Error(
+        "EXPECTED_HEAD_SHA environment variable is required in push-to-source mode",
+      );
+    }
+    if (
+      outputMode === "comment" ||
+      outputMode === "dry-run" ||
+      sizeCheck.action === "patch"
+    ) {
+      // The branch can't or shouldn't be pushed; keep the commit as a patch
+      const patch = execFileSync(
+        "git",
+        ["format-patch", "--stdout", `${baseSha}..HEAD`],
+        { encoding: "utf-8", cwd: repoRoot },
+      );
+      const patchFile = `${process.env.RUNNER_TEMP || "/tmp"}/ai-changes.patch`;
+      writeFileSync(patchFile, patch);
+      console.log(`Committed changes locally, patch written to ${patchFile}`);
+      core.setOutput("patch_file", patchFile);
+    } else if (commitBackend === "api") {
+      // Recreate the commits through the API so GitHub signs them
+      if (!octokit) {
+        throw new Error(
+          "GITHUB_TOKEN environment variable is required for the api commit backend",
+        );
+      }
+      const { owner, repo } = parseRepository(getTargetRepository());
+      // In push-to-source mode the commits sit on top of the expected head,
+      // so a fast-forward-only update fails if the branch moved
+      try {
+        const newHeadSha = await pushCommitsViaApi(octokit, owner, repo, {
+          repoRoot,
+          baseSha,
+          branchName,
+          force: !pushToSource && process.env.FORCE_PUSH === "true",
+        });
+        console.log(`Created signed commits on ${branchName} (${newHeadSha})`);
+      } catch (error) {
+        if (pushToSource && getErrorStatus(error) === 422) {
+          throw new Error(
+            `Refusing to update ${branchName}: it no longer points to ${expectedHeadSha}, so it was probably updated since the run started. Re-run on the new head. (${error instanceof Error ? error.message : String(error)})`,
+          );
+        }
+        throw error;
+      }
+    } else if (pushToSource) {
+      try {
+        execFileSync(
+          "git",
+          [
+            "push",
+            `--force-with-lease=${branchName}:${expectedHeadSha}`,
+            "origin",
+            `HEAD:${branchName}`,
+          ],
+          { stdio: "pipe", cwd: repoRoot },
+        );
+      } catch (error) {
+        throw new Error(
+          `Refusing to push to ${branchName}: the branch no longer points to ${expectedHeadSha}, so it was probably updated since the run started. Re-run on the new head. (${error instanceof Error ? error.message : String(error)})`,
+        );
+      }
+      console.log(`Committed and pushed changes on top of ${branchName}`);
+    } else {
+      // Push to remote, replacing an earlier run's branch if it was rebuilt
+      const forcePush = process.env.FORCE_PUSH === "true";
+      execFileSync(
+        "git",
+        forcePush
+          ? ["push", "--force-with-lease", "origin", branchName]
+          : ["push", "origin", branchName],
+        {
+          stdio: "pipe",
+          cwd: repoRoot,
+        },
+      );
+      console.log(`Committed and pushed changes to ${branchName}`);
+    }
 
-    console.log(`Committed and pushed changes to ${branchName}`);
     core.setOutput("has_changes", "true");
     core.setOutput("branch_name", branchName);
   } catch (error) {
@@ -87,4 +452,3 @@ function main() {
 if (import.meta.main) {
   main();
 }
-
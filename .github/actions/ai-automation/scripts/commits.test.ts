@@ -0,0 +1,164 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import type { Octokit } from "@octokit/rest";
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  appendTrailers,
+  DEFAULT_COMMIT_MESSAGE_PATTERN,
+  formatCoAuthorTrailer,
+  groupChanges,
+  parseCommitSplit,
+  readAssistantMessage,
+} from "./commits.ts";
+
+const repoRoot = mkdtempSync(join(tmpdir(), "commits-test-"));
+mkdirSync(join(repoRoot, "packages", "api", "src"), { recursive: true });
+writeFileSync(join(repoRoot, "packages", "api", "package.json"), "{}");
+mkdirSync(join(repoRoot, "tools", "cli"), { recursive: true });
+writeFileSync(join(repoRoot, "tools", "cli", "go.mod"), "module cli\n");
+
+afterAll(() => {
+  rmSync(repoRoot, { recursive: true, force: true });
+});
+
+describe("parseCommitSplit", () => {
+  test("defaults to none and rejects other modes", () => {
+    expect(parseCommitSplit(undefined)).toBe("none");
+    expect(parseCommitSplit(" package ")).toBe("package");
+    expect(() => parseCommitSplit("file")).toThrow("Invalid commit_split");
+  });
+});
+
+describe("groupChanges", () => {
+  const changes = [
+    { path: "README.md", status: " M" },
+    { path: "packages/api/src/index.ts", status: " M" },
+    { path: "tools/cli/main.go", status: "??" },
+    {
+      path: "packages/web/app.ts",
+      status: "R ",
+      originalPath: "packages/api/src/app.ts",
+    },
+  ];
+
+  test("keeps everything together without a split", () => {
+    expect(groupChanges(repoRoot, changes, "none")).toEqual([
+      {
+        name: "",
+        paths: [
+          "README.md",
+          "packages/api/src/index.ts",
+          "tools/cli/main.go",
+          "packages/api/src/app.ts",
+          "packages/web/app.ts",
+        ],
+      },
+    ]);
+  });
+
+  test("groups by top-level directory", () => {
+    expect(groupChanges(repoRoot, changes, "directory")).toEqual([
+      { name: "root", paths: ["README.md"] },
+      {
+        name: "packages",
+        paths: [
+          "packages/api/src/app.ts",
+          "packages/api/src/index.ts",
+          "packages/web/app.ts",
+        ],
+      },
+      { name: "tools", paths: ["tools/cli/main.go"] },
+    ]);
+  });
+
+  test("groups by the nearest package manifest", () => {
+    expect(groupChanges(repoRoot, changes, "package")).toEqual([
+      { name: "root", paths: ["README.md", "packages/web/app.ts"] },
+      {
+        name: "packages/api",
+        paths: ["packages/api/src/app.ts", "packages/api/src/index.ts"],
+      },
+      { name: "tools/cli", paths: ["tools/cli/main.go"] },
+    ]);
+  });
+});
+
+describe("readAssistantMessage", () => {
+  const file = ".ai-commit-message";
+  const write = (message: string) =>
+    writeFileSync(join(repoRoot, file), message);
+  const read = () =>
+    readAssistantMessage(repoRoot, file, DEFAULT_COMMIT_MESSAGE_PATTERN);
+
+  test("reads a conventional message and removes the file", () => {
+    write("fix(api): handle empty bodies\n\nDetails.\n");
+    expect(read()).toBe("fix(api): handle empty bodies\n\nDetails.");
+    expect(existsSync(join(repoRoot, file))).toBe(false);
+  });
+
+  test("ignores missing and non-matching messages", () => {
+    expect(read()).toBeNull();
+    write("Updated some files");
+    expect(read()).toBeNull();
+    expect(existsSync(join(repoRoot, file))).toBe(false);
+  });
+});
+
+describe("formatCoAuthorTrailer", () => {
+  const octokit = {
+    rest: {
+      users: {
+        getByUsername: async ({ username }: { username: string }) => {
+          if (username === "missing") {
+            throw new Error("Not Found");
+          }
+          return {
+            data: {
+              id: 42,
+              login: username,
+              name: username === "octocat" ? "The Octocat" : null,
+            },
+          };
+        },
+      },
+    },
+  } as unknown as Octokit;
+
+  test("uses the user's name and noreply address", async () => {
+    expect(await formatCoAuthorTrailer(octokit, "octocat")).toBe(
+      "Co-authored-by: The Octocat <42+octocat@users.noreply.github.com>",
+    );
+    expect(await formatCoAuthorTrailer(octokit, "hubot")).toBe(
+      "Co-authored-by: hubot <42+hubot@users.noreply.github.com>",
+    );
+  });
+
+  test("skips unknown and deleted users", async () => {
+    for (const login of ["", "unknown", "ghost", "missing"]) {
+      expect(await formatCoAuthorTrailer(octokit, login)).toBeNull();
+    }
+  });
+});
+
+describe("appendTrailers", () => {
+  const trailer = "Co-authored-by: hubot <42+hubot@users.noreply.github.com>";
+
+  test("adds trailers after a blank line", () => {
+    expect(appendTrailers("fix: typo\n", [trailer])).toBe(
+      `fix: typo\n\n${trailer}`,
+    );
+    expect(appendTrailers("fix: typo", [])).toBe("fix: typo");
+  });
+
+  test("joins the existing trailers without repeating them", () => {
+    const message = `fix: typo\n\n${trailer}`;
+    expect(appendTrailers(message, [trailer])).toBe(message);
+    expect(appendTrailers(message, [trailer, "Refs: #7"])).toBe(
+      `${message}\nRefs: #7`,
+    );
+    expect(
+      appendTrailers("fix: typo\n\nSee: the docs.\nMore.", ["Refs: #7"]),
+    ).toBe("fix: typo\n\nSee: the docs.\nMore.\n\nRefs: #7");
+  });
+});
@@ -0,0 +1,165 @@
+#!/usr/bin/env bun
+
+/**
+ * Commit messages, trailers and commit grouping for the AI assistant's changes
+ */
+
+import { Octokit } from "@octokit/rest";
+import { existsSync, readFileSync, rmSync } from "fs";
+import { dirname, join } from "path";
+import type { ChangedPath } from "./guardrails.ts";
+
+export const DEFAULT_COMMIT_MESSAGE_PATTERN =
+  "^(build|chore|ci|docs|feat|fix|perf|refactor|revert|style|test)(\\([^)]+\\))?!?: \\S";
+
+export type CommitSplit = "none" | "directory" | "package";
+
+// Files marking the root of a package, checked from the changed file upward
+const PACKAGE_MANIFESTS = [
+  "package.json",
+  "Cargo.toml",
+  "go.mod",
+  "pyproject.toml",
+  "setup.py",
+  "pom.xml",
+  "build.gradle",
+  "build.gradle.kts",
+  "composer.json",
+  "Gemfile",
+];
+
+/** Group name for files at the repository root */
+const ROOT_GROUP = "root";
+
+export interface CommitGroup {
+  name: string;
+  paths: string[];
+}
+
+export function parseCommitSplit(input: string | undefined): CommitSplit {
+  const split = (input || "none").trim();
+  if (split !== "none" && split !== "directory" && split !== "package") {
+    throw new Error(
+      `Invalid commit_split: ${input}. Expected 'none', 'directory' or 'package'`,
+    );
+  }
+  return split;
+}
+
+/**
+ * Reads and removes the commit message the assistant was asked to write.
+ * Returns null when there is no message or it doesn't match the pattern.
+ */
+export function readAssistantMessage(
+  repoRoot: string,
+  file: string,
+  pattern: string,
+): string | null {
+  const path = join(repoRoot, file);
+  if (!existsSync(path)) {
+    console.log(`No commit message written to ${file}`);
+    return null;
+  }
+  // The message file is never part of the commit
+  const message = readFileSync(path, "utf-8").trim();
+  rmSync(path, { force: true });
+
+  const subject = message.split("\n")[0] || "";
+  if (!new RegExp(pattern).test(subject)) {
+    console.warn(
+      `Ignoring commit message from ${file}: "${subject}" does not match ${pattern}`,
+    );
+    return null;
+  }
+  return message;
+}
+
+/**
+ * Builds a Co-authored-by trailer for a GitHub user, using their noreply
+ * address so the commit is attributed to their account
+ */
+export async function formatCoAuthorTrailer(
+  octokit: Octokit,
+  login: string,
+): Promise<string | null> {
+  if (!login || login === "unknown" || login === "ghost") {
+    return null;
+  }
+  try {
+    const { data: user } = await octokit.rest.users.getByUsername({
+      username: login,
+    });
+    return `Co-authored-by: ${user.name || user.login} <${user.id}+${user.login}@users.noreply.github.com>`;
+  } catch (error) {
+    console.warn(
+      `Failed to look up ${login} for the Co-authored-by trailer: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return null;
+  }
+}
+
+/**
+ * Appends trailers to a commit message, after a blank line. Git only reads
+ * trailers from the last paragraph, so they join an existing trailer block.
+ */
+export function appendTrailers(message: string, trailers: string[]): string {
+  const missing = trailers.filter((trailer) => !message.includes(trailer));
+  if (missing.length === 0) {
+    return message;
+  }
+  const body = message.trimEnd();
+  const paragraphs = body.split(/\n\s*\n/);
+  const hasTrailers =
+    paragraphs.length > 1 &&
+    (paragraphs.at(-1) || "")
+      .split("\n")
+      .every((line) => /^[\w-]+: \S/.test(line));
+  return `${body}${hasTrailers ? "\n" : "\n\n"}${missing.join("\n")}`;
+}
+
+function findPackageRoot(repoRoot: string, path: string): string {
+  let dir = dirname(path);
+  while (dir !== "." && dir !== "/") {
+    if (
+      PACKAGE_MANIFESTS.some((manifest) =>
+        existsSync(join(repoRoot, dir, manifest)),
+      )
+    ) {
+      return dir;
+    }
+    dir = dirname(dir);
+  }
+  return ROOT_GROUP;
+}
+
+function groupName(repoRoot: string, path: string, split: CommitSplit): string {
+  if (split === "package") {
+    return findPackageRoot(repoRoot, path);
+  }
+  const slash = path.indexOf("/");
+  return slash === -1 ? ROOT_GROUP : path.slice(0, slash);
+}
+
+/**
+ * Groups changed paths by top-level directory or package, in path order.
+ * Renames contribute both paths, so the deletion and the addition may land
+ * in different commits.
+ */
+export function groupChanges(
+  repoRoot: string,
+  changes: ChangedPath[],
+  split: CommitSplit,
+): CommitGroup[] {
+  const paths = changes.flatMap((change) =>
+    change.originalPath ? [change.originalPath, change.path] : [change.path],
+  );
+  if (split === "none") {
+    return [{ name: "", paths }];
+  }
+  const groups = new Map<string, string[]>();
+  for (const path of [...paths].sort()) {
+    const name = groupName(repoRoot, path, split);
+    groups.set(name, [...(groups.get(name) || []), path]);
+  }
+  return [...groups].map(([name, groupPaths]) => ({ name, paths: groupPaths }));
+}
@@ -0,0 +1,159 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  findConfigFile,
+  loadConfig,
+  matchesRecipe,
+  parseConfig,
+  type MatchContext,
+  type Recipe,
+} from "./config.ts";
+
+const CONFIG = `
+version: 1
+recipes:
+  docs:
+    description: Keep the docs in sync
+    match:
+      files: ["src/**"]
+      labels: docs, needs-docs
+      base_branches: [main, "release/*"]
+    prompt_file: .github/prompts/docs.md
+    enable_plan: true
+    max_changed_files: 10
+    allowed_paths:
+      - docs/**
+      - README.md
+  fallback:
+    provider: claude
+`;
+
+describe("parseConfig", () => {
+  test("reads recipes as action input values", () => {
+    const [docs, fallback] = parseConfig(CONFIG, "ai-actions.yml").recipes;
+    expect(docs).toEqual({
+      name: "docs",
+      description: "Keep the docs in sync",
+      match: {
+        files: ["src/**"],
+        labels: ["docs", "needs-docs"],
+        baseBranches: ["main", "release/*"],
+        authors: [],
+      },
+      inputs: {
+        enable_plan: "true",
+        allowed_paths: "docs/**\nREADME.md",
+        max_changed_files: "10",
+      },
+      files: { prompt_template: ".github/prompts/docs.md" },
+    });
+    expect(fallback?.match).toBeNull();
+  });
+
+  test("parses JSON configs", () => {
+    expect(
+      parseConfig('{"recipes": {"a": {"pr_draft": false}}}', "ai-actions.json")
+        .recipes[0]?.inputs,
+    ).toEqual({ pr_draft: "false" });
+  });
+
+  test("names the file and field in errors", () => {
+    const invalid = (content: string) => () =>
+      parseConfig(content, "ai-actions.yml");
+    expect(invalid("recipes: [a")).toThrow("Invalid config ai-actions.yml:");
+    expect(invalid("recipes: {}")).toThrow('non-empty "recipes" object');
+    expect(invalid("version: 2\nrecipes: {a: {}}")).toThrow(
+      "version must be 1, got 2",
+    );
+    expect(invalid("recipes: {a: {prompt: x}}")).toThrow(
+      'recipes.a has unknown field(s) "prompt"',
+    );
+    expect(invalid("recipes: {a: {enable_plan: yes please}}")).toThrow(
+      "recipes.a.enable_plan must be true or false, got string",
+    );
+    expect(invalid("recipes: {a: {max_changed_lines: -1}}")).toThrow(
+      "recipes.a.max_changed_lines must be a whole number of 0 or more",
+    );
+    expect(invalid("recipes: {a: {provider: gpt}}")).toThrow(
+      "recipes.a.provider must be one of",
+    );
+    expect(
+      invalid("recipes: {a: {prompt_file: a.md, prompt_template: x}}"),
+    ).toThrow("can't set both prompt_file and prompt_template");
+    expect(invalid("recipes: {'a b': {}}")).toThrow(
+      "recipe names may only contain",
+    );
+  });
+});
+
+describe("matchesRecipe", () => {
+  const [docs, fallback] = parseConfig(CONFIG, "ai-actions.yml").recipes as [
+    Recipe,
+    Recipe,
+  ];
+  const context: MatchContext = {
+    files: ["src/index.ts"],
+    labels: ["needs-docs"],
+    baseBranch: "release/2.0",
+    authors: ["octocat"],
+  };
+
+  test("requires every rule that is set", () => {
+    expect(matchesRecipe(docs, context)).toBe(true);
+    expect(matchesRecipe(docs, { ...context, files: ["test/a.ts"] })).toBe(
+      false,
+    );
+    expect(matchesRecipe(docs, { ...context, labels: [] })).toBe(false);
+    expect(matchesRecipe(docs, { ...context, baseBranch: "develop" })).toBe(
+      false,
+    );
+  });
+
+  test("matches every source without rules", () => {
+    expect(
+      matchesRecipe(fallback, {
+        files: [],
+        labels: [],
+        baseBranch: "",
+        authors: [],
+      }),
+    ).toBe(true);
+  });
+});
+
+describe("config files", () => {
+  const workspace = mkdtempSync(join(tmpdir(), "config-test-"));
+  const outside = mkdtempSync(join(tmpdir(), "config-test-outside-"));
+  mkdirSync(join(workspace, ".github"));
+  writeFileSync(join(workspace, ".github", "ai-actions.yaml"), CONFIG);
+  writeFileSync(join(outside, "config.yml"), CONFIG);
+  symlinkSync(join(outside, "config.yml"), join(workspace, "link.yml"));
+
+  afterAll(() => {
+    rmSync(workspace, { recursive: true, force: true });
+    rmSync(outside, { recursive: true, force: true });
+  });
+
+  test("finds the default config file or uses config_file as is", () => {
+    expect(findConfigFile(workspace, "")).toBe(".github/ai-actions.yaml");
+    expect(findConfigFile(workspace, "missing.yml")).toBe("missing.yml");
+    expect(findConfigFile(outside, "")).toBeNull();
+  });
+
+  test("loads only config files inside the workspace", () => {
+    expect(
+      loadConfig(workspace, ".github/ai-actions.yaml").recipes,
+    ).toHaveLength(2);
+    expect(() => loadConfig(workspace, "missing.yml")).toThrow(
+      "Config file missing.yml not found in the workspace",
+    );
+    expect(() => loadConfig(workspace, "../config.yml")).toThrow(
+      "Config file ../config.yml is outside the workspace",
+    );
+    expect(() => loadConfig(workspace, "link.yml")).toThrow(
+      "Config file link.yml is outside the workspace",
+    );
+  });
+});
@@ -0,0 +1,352 @@
+#!/usr/bin/env bun
+
+/**
+ * Repository config file (.github/ai-actions.yml or .json) with named
+ * recipes. A recipe sets action inputs (prompt, provider, plan, PR
+ * templates, guardrails) and has match rules that decide which sources it
+ * runs for.
+ */
+
+import { existsSync } from "fs";
+import { join } from "path";
+import { parse as parseYaml } from "yaml";
+import { PROVIDER_NAMES } from "./providers.ts";
+import { matchesAnyGlob, readWorkspaceFile } from "./utils.ts";
+
+/** Looked up in order when config_file isn't set */
+export const DEFAULT_CONFIG_FILES = [
+  ".github/ai-actions.yml",
+  ".github/ai-actions.yaml",
+  ".github/ai-actions.json",
+];
+
+export interface MatchRules {
+  /** Globs; any changed file matching them matches */
+  files: string[];
+  /** Any of the labels */
+  labels: string[];
+  /** Globs for the base branch */
+  baseBranches: string[];
+  /** Any of the authors */
+  authors: string[];
+}
+
+export interface Recipe {
+  name: string;
+  description: string;
+  /** null matches every source */
+  match: MatchRules | null;
+  /** Action inputs the recipe sets, as input values */
+  inputs: Record<string, string>;
+  /** Inputs read from files in the repository, input name to path */
+  files: Record<string, string>;
+}
+
+export interface AiConfig {
+  recipes: Recipe[];
+}
+
+/** What a source is matched on */
+export interface MatchContext {
+  files: string[];
+  labels: string[];
+  baseBranch: string;
+  authors: string[];
+}
+
+type FieldType = "string" | "boolean" | "count" | "list" | string[];
+
+// Action inputs a recipe can set
+const INPUT_FIELDS: Record<string, FieldType> = {
+  prompt_template: "string",
+  provider: PROVIDER_NAMES,
+  enable_plan: "boolean",
+  plan_format: ["text", "structured"],
+  plan_prompt_template: "string",
+  pr_title_template: "string",
+  pr_body_template: "string",
+  pr_labels: "list",
+  pr_draft: "boolean",
+  allowed_paths: "list",
+  blocked_paths: "list",
+  max_changed_files: "count",
+  max_changed_lines: "count",
+  max_deleted_files: "count",
+};
+
+// Inputs that can be read from a file instead, keyed by the file field
+const FILE_FIELDS: Record<string, string> = {
+  prompt_file: "prompt_template",
+  plan_prompt_file: "plan_prompt_template",
+  pr_body_file: "pr_body_template",
+};
+
+const RECIPE_FIELDS = [
+  "description",
+  "match",
+  ...Object.keys(INPUT_FIELDS),
+  ...Object.keys(FILE_FIELDS),
+];
+const MATCH_FIELDS = ["files", "labels", "base_branches", "authors"];
+const CONFIG_FIELDS = ["version", "recipes"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  return value === null
+    ? "null"
+    : Array.isArray(value)
+      ? "array"
+      : typeof value;
+}
+
+function checkFields(
+  value: Record<string, unknown>,
+  known: string[],
+  where: string,
+) {
+  const unknown = Object.keys(value).filter((key) => !known.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(
+      `${where} has unknown field(s) ${unknown.map((key) => `"${key}"`).join(", ")}. Expected ${known.map((key) => `"${key}"`).join(", ")}`,
+    );
+  }
+}
+
+function readString(value: unknown, where: string): string {
+  if (typeof value !== "string") {
+    throw new Error(`${where} must be a string, got ${describe(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Lists are YAML arrays or, like the action inputs, comma or newline
+ * separated strings
+ */
+function readList(value: unknown, where: string): string[] {
+  const items = typeof value === "string" ? value.split(/[\n,]/) : value;
+  if (!Array.isArray(items)) {
+    throw new Error(
+      `${where} must be a list of strings, got ${describe(value)}`,
+    );
+  }
+  return items
+    .map((item, index) => readString(item, `${where}[${index}]`).trim())
+    .filter((item) => item.length > 0);
+}
+
+function readInput(value: unknown, type: FieldType, where: string): string {
+  if (Array.isArray(type)) {
+    const text = readString(value, where).trim();
+    if (!type.includes(text)) {
+      throw new Error(
+        `${where} must be one of ${type.map((option) => `"${option}"`).join(", ")}, got "${text}"`,
+      );
+    }
+    return text;
+  }
+  switch (type) {
+    case "string":
+      return readString(value, where);
+    case "boolean":
+      if (typeof value !== "boolean") {
+        throw new Error(
+          `${where} must be true or false, got ${describe(value)}`,
+        );
+      }
+      return String(value);
+    case "count":
+      if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+        throw new Error(
+          `${where} must be a whole number of 0 or more, got ${JSON.stringify(value)}`,
+        );
+      }
+      return String(value);
+    case "list":
+      return readList(value, where).join("\n");
+  }
+}
+
+function readMatch(value: unknown, where: string): MatchRules | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (!isObject(value)) {
+    throw new Error(`${where} must be an object, got ${describe(value)}`);
+  }
+  checkFields(value, MATCH_FIELDS, where);
+  const read = (field: string) =>
+    value[field] === undefined
+      ? []
+      : readList(value[field], `${where}.${field}`);
+  return {
+    files: read("files"),
+    labels: read("labels"),
+    baseBranches: read("base_branches"),
+    authors: read("authors"),
+  };
+}
+
+function readRecipe(name: string, value: unknown): Recipe {
+  const where = `recipes.${name}`;
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(
+      `${where}: recipe names may only contain letters, digits, ".", "_" and "-"`,
+    );
+  }
+  if (!isObject(value)) {
+    throw new Error(`${where} must be an object, got ${describe(value)}`);
+  }
+  checkFields(value, RECIPE_FIELDS, where);
+
+  const inputs: Record<string, string> = {};
+  for (const [field, type] of Object.entries(INPUT_FIELDS)) {
+    if (value[field] !== undefined) {
+      inputs[field] = readInput(value[field], type, `${where}.${field}`);
+    }
+  }
+  const files: Record<string, string> = {};
+  for (const [field, input] of Object.entries(FILE_FIELDS)) {
+    if (value[field] === undefined) {
+      continue;
+    }
+    if (value[input] !== undefined) {
+      throw new Error(`${where} can't set both ${field} and ${input}`);
+    }
+    const path = readString(value[field], `${where}.${field}`).trim();
+    if (!path) {
+      throw new Error(`${where}.${field} must not be empty`);
+    }
+    files[input] = path;
+  }
+
+  return {
+    name,
+    description:
+      value.description === undefined
+        ? ""
+        : readString(value.description, `${where}.description`),
+    match: readMatch(value.match, `${where}.match`),
+    inputs,
+    files,
+  };
+}
+
+/**
+ * Validates a parsed config against the config schema
+ */
+export function validateConfig(value: unknown): AiConfig {
+  if (!isObject(value)) {
+    throw new Error(`The config must be an object, got ${describe(value)}`);
+  }
+  checkFields(value, CONFIG_FIELDS, "The config");
+  if (value.version !== undefined && value.version !== 1) {
+    throw new Error(`version must be 1, got ${JSON.stringify(value.version)}`);
+  }
+  if (!isObject(value.recipes) || Object.keys(value.recipes).length === 0) {
+    throw new Error('The config needs a non-empty "recipes" object');
+  }
+  return {
+    recipes: Object.entries(value.recipes).map(([name, recipe]) =>
+      readRecipe(name, recipe),
+    ),
+  };
+}
+
+/**
+ * Parses and validates config file content. JSON is valid YAML, so .json
+ * files go through the YAML parser too and get the same line and column in
+ * syntax errors.
+ */
+export function parseConfig(content: string, file: string): AiConfig {
+  let value: unknown;
+  try {
+    value = parseYaml(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid config ${file}: ${(error instanceof Error ? error.message : String(error)).trimEnd()}`,
+    );
+  }
+  try {
+    return validateConfig(value);
+  } catch (error) {
+    throw new Error(
+      `Invalid config ${file}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Finds the config file in the repository. An explicit config_file is used
+ * as is and must exist when it is loaded; otherwise the default locations
+ * are tried. Returns null if there is no config.
+ */
+export function findConfigFile(
+  repoRoot: string,
+  configFile: string,
+): string | null {
+  if (configFile) {
+    return configFile;
+  }
+  return (
+    DEFAULT_CONFIG_FILES.find((file) => existsSync(join(repoRoot, file))) ??
+    null
+  );
+}
+
+/**
+ * Loads the config file, which must be inside the workspace, also after
+ * following symlinks
+ */
+export function loadConfig(repoRoot: string, file: string): AiConfig {
+  let content: string;
+  try {
+    content = readWorkspaceFile(repoRoot, file);
+  } catch (error) {
+    throw new Error(
+      `Config file ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  return parseConfig(content, file);
+}
+
+/**
+ * Whether the recipe applies to the source. Every rule that is set must
+ * match; within a rule, any entry matches.
+ */
+export function matchesRecipe(recipe: Recipe, context: MatchContext): boolean {
+  const rules = recipe.match;
+  if (!rules) {
+    return true;
+  }
+  if (
+    rules.files.length > 0 &&
+    !context.files.some((file) => matchesAnyGlob(file, rules.files))
+  ) {
+    return false;
+  }
+  if (
+    rules.labels.length > 0 &&
+    !rules.labels.some((label) => context.labels.includes(label))
+  ) {
+    return false;
+  }
+  if (
+    rules.baseBranches.length > 0 &&
+    !rules.baseBranches.some((pattern) =>
+      new Bun.Glob(pattern).match(context.baseBranch),
+    )
+  ) {
+    return false;
+  }
+  if (
+    rules.authors.length > 0 &&
+    !rules.authors.some((author) => context.authors.includes(author))
+  ) {
+    return false;
+  }
+  return true;
+}
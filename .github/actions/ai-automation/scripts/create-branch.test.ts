@@ -0,0 +1,221 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { execFileSync, spawnSync } from "child_process";
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  formatBranchName,
+  remoteDefaultBranch,
+  resolveBranchUpdate,
+} from "./create-branch.ts";
+
+describe("formatBranchName", () => {
+  const options = {
+    prefix: "ai/",
+    sourceType: "pr",
+    sourceNumber: "7",
+    recipe: "docs",
+    promptTemplate: "Update the docs",
+    sourceRepository: "acme/widgets",
+    targetRepository: "",
+  };
+
+  test("names the branch after the source and recipe", () => {
+    expect(formatBranchName(options)).toBe("ai/pr-7-docs");
+    expect(
+      formatBranchName({
+        ...options,
+        sourceType: "batch",
+        sourceNumber: "1-5",
+      }),
+    ).toBe("ai/batch-1-5-docs");
+  });
+
+  test("normalizes the recipe into a slug", () => {
+    expect(formatBranchName({ ...options, recipe: " Fix Lint/Errors! " })).toBe(
+      "ai/pr-7-fix-lint-errors",
+    );
+    expect(formatBranchName({ ...options, recipe: "v1.2_docs" })).toBe(
+      "ai/pr-7-v1.2_docs",
+    );
+  });
+
+  test("falls back to a hash of the prompt template", () => {
+    const hashed = formatBranchName({ ...options, recipe: "" });
+    expect(hashed).toMatch(/^ai\/pr-7-[0-9a-f]{8}$/);
+    expect(formatBranchName({ ...options, recipe: "!!" })).toBe(hashed);
+    expect(
+      formatBranchName({ ...options, recipe: "", promptTemplate: "Other" }),
+    ).not.toBe(hashed);
+  });
+
+  test("prefixes the source repository in a target repository", () => {
+    expect(
+      formatBranchName({ ...options, targetRepository: "acme/docs" }),
+    ).toBe("ai/widgets-pr-7-docs");
+  });
+});
+
+describe("remoteDefaultBranch", () => {
+  const root = mkdtempSync(join(tmpdir(), "create-branch-test-"));
+  const origin = join(root, "origin");
+  const checkout = join(root, "checkout");
+  const git = (cwd: string, ...args: string[]) =>
+    execFileSync("git", args, {
+      cwd,
+      encoding: "utf-8",
+      stdio: "pipe",
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: "test",
+        GIT_AUTHOR_EMAIL: "test@example.com",
+        GIT_COMMITTER_NAME: "test",
+        GIT_COMMITTER_EMAIL: "test@example.com",
+      },
+    });
+  mkdirSync(origin);
+  git(origin, "init", "-q");
+  git(origin, "checkout", "-q", "-b", "release/2.x");
+  git(origin, "commit", "-q", "--allow-empty", "-m", "base");
+  git(root, "clone", "-q", origin, checkout);
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test("reads the branch origin's HEAD points to", () => {
+    expect(remoteDefaultBranch(checkout)).toBe("release/2.x");
+  });
+
+  test("fails when origin's HEAD is not a branch", () => {
+    git(origin, "checkout", "-q", "--detach");
+    expect(() => remoteDefaultBranch(checkout)).toThrow(
+      "Could not determine the default branch",
+    );
+  });
+});
+
+describe("resolveBranchUpdate", () => {
+  const branch = "ai/pr-7-docs";
+
+  test("creates a branch that doesn't exist yet", () => {
+    expect(resolveBranchUpdate(branch, false, null, "force-push")).toBe(
+      "create",
+    );
+  });
+
+  test("updates the open AI PR's branch", () => {
+    expect(resolveBranchUpdate(branch, true, branch, "force-push")).toBe(
+      "force-push",
+    );
+    expect(resolveBranchUpdate(branch, true, branch, "append")).toBe("append");
+  });
+
+  test("never overwrites a branch without an open AI PR", () => {
+    for (const head of [null, "feature/docs"]) {
+      expect(() =>
+        resolveBranchUpdate(branch, true, head, "force-push"),
+      ).toThrow("Branch ai/pr-7-docs already exists but has no open AI PR");
+    }
+  });
+});
+
+describe("dry run", () => {
+  const root = mkdtempSync(join(tmpdir(), "create-branch-dry-run-test-"));
+  const origin = join(root, "origin");
+  const checkout = join(root, "checkout");
+  const outputFile = join(root, "output");
+  const git = (cwd: string, ...args: string[]) =>
+    execFileSync("git", args, {
+      cwd,
+      encoding: "utf-8",
+      stdio: "pipe",
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: "test",
+        GIT_AUTHOR_EMAIL: "test@example.com",
+        GIT_COMMITTER_NAME: "test",
+        GIT_COMMITTER_EMAIL: "test@example.com",
+      },
+    }).trim();
+  mkdirSync(origin);
+  git(origin, "init", "-q", "-b", "main");
+  git(origin, "commit", "-q", "--allow-empty", "-m", "base");
+  const baseSha = git(origin, "rev-parse", "HEAD");
+  git(origin, "commit", "-q", "--allow-empty", "-m", "Fork change");
+  const forkSha = git(origin, "rev-parse", "HEAD");
+  git(origin, "update-ref", "refs/pull/8/head", forkSha);
+  git(origin, "reset", "-q", "--hard", baseSha);
+  git(root, "clone", "-q", origin, checkout);
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  // Runs the script without a token, so any API call would fail the run
+  const run = (env: Record<string, string>) => {
+    writeFileSync(outputFile, "");
+    const result = spawnSync(
+      process.execPath,
+      [join(import.meta.dir, "create-branch.ts")],
+      {
+        encoding: "utf-8",
+        env: {
+          PATH: process.env.PATH,
+          GITHUB_OUTPUT: outputFile,
+          GITHUB_WORKSPACE: checkout,
+          BASE_BRANCH: "main",
+          DRY_RUN: "true",
+          ...env,
+        },
+      },
+    );
+    const outputs: Record<string, string> = {};
+    const content = readFileSync(outputFile, "utf-8");
+    for (const match of content.matchAll(/^(\w+)<<(\S+)\n([\s\S]*?)\n\2$/gm)) {
+      outputs[match[1] ?? ""] = match[3] ?? "";
+    }
+    return { status: result.status, outputs };
+  };
+
+  test("creates the branch locally from the base branch", () => {
+    const { status, outputs } = run({
+      SOURCE_TYPE: "issue",
+      ISSUE_NUMBER: "4",
+      RECIPE: "docs",
+    });
+    expect(status).toBe(0);
+    expect(outputs).toMatchObject({
+      branch_name: "ai/issue-4-docs",
+      output_mode: "dry-run",
+      force_push: "false",
+    });
+    expect(git(checkout, "rev-parse", "--abbrev-ref", "HEAD")).toBe(
+      "ai/issue-4-docs",
+    );
+    expect(git(checkout, "rev-parse", "HEAD")).toBe(baseSha);
+  });
+
+  test("checks out a fork PR locally in push-to-source mode", () => {
+    const { status, outputs } = run({
+      SOURCE_TYPE: "pr",
+      PR_NUMBER: "8",
+      OUTPUT_MODE: "push-to-source",
+      HEAD_REF: "feature",
+      HEAD_SHA: forkSha,
+      IS_CROSS_REPOSITORY: "true",
+    });
+    expect(status).toBe(0);
+    expect(outputs).toMatchObject({
+      branch_name: "ai/pr-8-suggestion",
+      output_mode: "dry-run",
+    });
+    expect(git(checkout, "rev-parse", "HEAD")).toBe(forkSha);
+  });
+});
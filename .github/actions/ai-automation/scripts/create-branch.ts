@@ -1,63 +1,394 @@
 #!/usr/bin/env bun
 
 /**
- * Creates a new branch from the base branch for AI-generated changes
+ * Creates the branch for AI-generated changes. The branch name is
+ * deterministic per source and recipe, so reruns reuse the branch (and
+ * its open PR) instead of piling up new ones. In push-to-source mode,
+ * checks out the source PR's head branch instead so changes are committed
+ * on top of it. In dry-run mode, the branch is only created locally and
+ * existing AI PRs are left alone. With target_repository, the branch is
+ * created in the target repository's checkout instead.
  */
 
 import * as core from "@actions/core";
+import { Octokit } from "@octokit/rest";
 import { execFileSync } from "child_process";
+import { createHash } from "crypto";
+import {
+  getApiUrl,
+  getTargetRepository,
+  getTargetRoot,
+  parseRepository,
+} from "./utils.ts";
 
-function main() {
+/**
+ * Derives the recipe part of the branch name: the recipe input if given,
+ * otherwise a short hash of the prompt template
+ */
+function recipeSlug(recipe: string, promptTemplate: string): string {
+  const slug = recipe
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  if (slug) {
+    return slug;
+  }
+  return createHash("sha256").update(promptTemplate).digest("hex").slice(0, 8);
+}
+
+/**
+ * Formats the name of the AI branch: {prefix}{pr|issue|batch}-{number}-{recipe}.
+ * In a target repository, the source repository's name keeps sources apart.
+ */
+export function formatBranchName(options: {
+  prefix: string;
+  sourceType: string;
+  sourceNumber: string;
+  recipe: string;
+  promptTemplate: string;
+  sourceRepository: string;
+  targetRepository: string;
+}): string {
+  const recipe = recipeSlug(options.recipe, options.promptTemplate);
+  const sourceRepo = options.targetRepository
+    ? `${parseRepository(options.sourceRepository).repo}-`
+    : "";
+  return `${options.prefix}${sourceRepo}${options.sourceType}-${options.sourceNumber}-${recipe}`;
+}
+
+/**
+ * Finds the open AI PR for a branch, if any
+ */
+export async function findOpenPR(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branchName: string,
+) {
+  const { data: pulls } = await octokit.rest.pulls.list({
+    owner,
+    repo,
+    head: `${owner}:${branchName}`,
+    state: "open",
+  });
+  return pulls[0] ?? null;
+}
+
+/**
+ * Decides how the AI branch is updated. Only the open AI PR's branch is
+ * appended to or replaced; a branch of that name without one (left over from
+ * a closed PR, or someone else's work) is never overwritten.
+ */
+export function resolveBranchUpdate(
+  branchName: string,
+  branchExists: boolean,
+  existingPRHead: string | null,
+  updateStrategy: string,
+): "create" | "append" | "force-push" {
+  if (!branchExists) {
+    return "create";
+  }
+  if (existingPRHead !== branchName) {
+    throw new Error(
+      `Branch ${branchName} already exists but has no open AI PR. Delete the branch, or set a different recipe or branch_prefix`,
+    );
+  }
+  return updateStrategy === "append" ? "append" : "force-push";
+}
+
+function remoteBranchExists(repoRoot: string, branchName: string): boolean {
+  try {
+    execFileSync("git", ["fetch", "origin", branchName], {
+      stdio: "pipe",
+      cwd: repoRoot,
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks out the source PR's head commit on a local branch. Fork heads
+ * are only reachable through refs/pull/N/head.
+ */
+function checkoutSourceHead(
+  repoRoot: string,
+  branchName: string,
+  prNumber: string,
+  headRef: string,
+  headSha: string,
+  isFork: boolean,
+) {
+  const ref = isFork ? `refs/pull/${prNumber}/head` : headRef;
+  execFileSync("git", ["fetch", "origin", ref], {
+    stdio: "pipe",
+    cwd: repoRoot,
+  });
+  execFileSync("git", ["checkout", "-B", branchName, headSha], {
+    stdio: "pipe",
+    cwd: repoRoot,
+  });
+}
+
+/**
+ * Records the commit the branch starts from. The AI assistant may commit on
+ * its own, so its changes are everything after this commit.
+ */
+function outputBaseSha(repoRoot: string) {
+  const sha = execFileSync("git", ["rev-parse", "HEAD"], {
+    encoding: "utf-8",
+    cwd: repoRoot,
+  }).trim();
+  core.setOutput("base_sha", sha);
+}
+
+/**
+ * Reads the default branch of the checkout's origin
+ */
+export function remoteDefaultBranch(repoRoot: string): string {
+  const output = execFileSync(
+    "git",
+    ["ls-remote", "--symref", "origin", "HEAD"],
+    {
+      encoding: "utf-8",
+      cwd: repoRoot,
+    },
+  );
+  const branch = output.match(/^ref: refs\/heads\/(\S+)\tHEAD$/m)?.[1];
+  if (!branch) {
+    throw new Error(
+      "Could not determine the default branch of the target repository",
+    );
+  }
+  return branch;
+}
+
+/**
+ * Creates the branch from the base branch and checks it out, replacing any
+ * earlier run's local branch
+ */
+function checkoutFromBase(
+  repoRoot: string,
+  branchName: string,
+  baseBranch: string,
+) {
+  // Fetch the base branch
+  try {
+    execFileSync("git", ["fetch", "origin", baseBranch], {
+      stdio: "pipe",
+      cwd: repoRoot,
+    });
+  } catch (error) {
+    console.warn(
+      `Failed to fetch origin/${baseBranch}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  // Create and checkout the branch from base
   try {
-    const baseBranch = process.env.BASE_BRANCH;
+    execFileSync(
+      "git",
+      ["checkout", "-B", branchName, `origin/${baseBranch}`],
+      {
+        stdio: "pipe",
+        cwd: repoRoot,
+      },
+    );
+  } catch (error) {
+    // If origin/branch doesn't exist, try creating from current branch
+    console.warn(
+      `Could not checkout from origin/${baseBranch}, trying current branch: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    execFileSync("git", ["checkout", "-B", branchName], {
+      stdio: "pipe",
+      cwd: repoRoot,
+    });
+  }
+}
+
+async function main() {
+  try {
+    let baseBranch = process.env.BASE_BRANCH;
     if (!baseBranch) {
       throw new Error("BASE_BRANCH environment variable is required");
     }
 
     const branchPrefix = process.env.BRANCH_PREFIX || "ai/";
-    const prNumber = process.env.PR_NUMBER;
-    if (!prNumber) {
-      throw new Error("PR_NUMBER environment variable is required");
+    const sourceType =
+      process.env.SOURCE_TYPE === "issue" || process.env.SOURCE_TYPE === "batch"
+        ? process.env.SOURCE_TYPE
+        : "pr";
+    // A batch is named by its range, label or PR list instead of a number
+    const sourceVariable = {
+      pr: "PR_NUMBER",
+      issue: "ISSUE_NUMBER",
+      batch: "BATCH_ID",
+    }[sourceType];
+    const sourceNumber = process.env[sourceVariable];
+    if (!sourceNumber) {
+      throw new Error(`${sourceVariable} environment variable is required`);
     }
 
-    // Determine working directory (repository root, not action path)
-    const repoRoot = process.env.GITHUB_WORKSPACE || process.cwd();
+    // Determine working directory (target repository root, not action path)
+    const repoRoot = getTargetRoot();
 
-    // Generate branch name: {prefix}pr-{number}-{timestamp}
-    const timestamp = Date.now();
-    const branchName = `${branchPrefix}pr-${prNumber}-${timestamp}`;
+    // Changes for another repository can only go to a new branch there
+    const targetRepository = process.env.TARGET_REPOSITORY || "";
+    const outputMode = process.env.OUTPUT_MODE || "pr";
+    if (outputMode === "push-to-source" && targetRepository) {
+      throw new Error(
+        "output_mode 'push-to-source' can't be used with target_repository",
+      );
+    }
+    // The source's base branch usually doesn't exist in the target
+    if (targetRepository) {
+      baseBranch =
+        process.env.TARGET_BASE_BRANCH || remoteDefaultBranch(repoRoot);
+      console.log(
+        `Target repository: ${targetRepository} (base ${baseBranch})`,
+      );
+    }
+    core.setOutput("base_branch", baseBranch);
 
-    // Fetch the base branch
-    try {
-      execFileSync("git", ["fetch", "origin", baseBranch], {
-        stdio: "pipe",
-        cwd: repoRoot,
-      });
-    } catch (error) {
-      console.warn(
-        `Failed to fetch origin/${baseBranch}: ${error instanceof Error ? error.message : String(error)}`,
+    const dryRun = process.env.DRY_RUN === "true";
+    if (outputMode === "push-to-source") {
+      if (sourceType !== "pr") {
+        throw new Error("output_mode 'push-to-source' requires a PR as source");
+      }
+      const headRef = process.env.HEAD_REF;
+      const headSha = process.env.HEAD_SHA;
+      if (!headRef || !headSha) {
+        throw new Error(
+          "HEAD_REF and HEAD_SHA environment variables are required in push-to-source mode",
+        );
+      }
+
+      // The workflow token can't push to fork branches
+      const isFork = process.env.IS_CROSS_REPOSITORY === "true";
+      const fallback = process.env.FORK_FALLBACK || "pr";
+      if (!isFork) {
+        checkoutSourceHead(
+          repoRoot,
+          headRef,
+          sourceNumber,
+          headRef,
+          headSha,
+          false,
+        );
+        console.log(`Checked out source PR branch: ${headRef} at ${headSha}`);
+        outputBaseSha(repoRoot);
+        core.setOutput("branch_name", headRef);
+        core.setOutput("output_mode", dryRun ? "dry-run" : "push-to-source");
+        core.setOutput("expected_head_sha", headSha);
+        return;
+      }
+
+      if (fallback === "comment" || dryRun) {
+        const branchName = `${branchPrefix}pr-${sourceNumber}-suggestion`;
+        checkoutSourceHead(
+          repoRoot,
+          branchName,
+          sourceNumber,
+          headRef,
+          headSha,
+          true,
+        );
+        console.log(
+          dryRun
+            ? `Checked out fork PR #${sourceNumber} locally for a dry run`
+            : `PR #${sourceNumber} is from a fork; changes will be posted as a suggestion comment`,
+        );
+        outputBaseSha(repoRoot);
+        core.setOutput("branch_name", branchName);
+        core.setOutput("output_mode", dryRun ? "dry-run" : "comment");
+        return;
+      }
+      if (fallback !== "pr") {
+        throw new Error(
+          `Invalid fork_fallback: ${fallback}. Expected 'pr' or 'comment'`,
+        );
+      }
+      console.log(
+        `PR #${sourceNumber} is from a fork; falling back to a separate PR`,
+      );
+    } else if (outputMode !== "pr") {
+      throw new Error(
+        `Invalid output_mode: ${outputMode}. Expected 'pr' or 'push-to-source'`,
       );
     }
 
-    // Create and checkout the new branch
-    try {
-      execFileSync("git", ["checkout", "-b", branchName, `origin/${baseBranch}`], {
-        stdio: "pipe",
-        cwd: repoRoot,
-      });
-    } catch (error) {
-      // If origin/branch doesn't exist, try creating from current branch
-      console.warn(
-        `Could not checkout from origin/${baseBranch}, trying current branch: ${error instanceof Error ? error.message : String(error)}`,
+    const branchName = formatBranchName({
+      prefix: branchPrefix,
+      sourceType,
+      sourceNumber,
+      recipe: process.env.RECIPE || "",
+      promptTemplate: process.env.PROMPT_TEMPLATE || "",
+      sourceRepository: process.env.REPOSITORY || "",
+      targetRepository,
+    });
+
+    if (dryRun) {
+      checkoutFromBase(repoRoot, branchName, baseBranch);
+      console.log(`Created local branch for a dry run: ${branchName}`);
+      outputBaseSha(repoRoot);
+      core.setOutput("branch_name", branchName);
+      core.setOutput("output_mode", "dry-run");
+      core.setOutput("force_push", "false");
+      return;
+    }
+
+    const githubToken = process.env.GITHUB_TOKEN;
+    if (!githubToken) {
+      throw new Error("GITHUB_TOKEN environment variable is required");
+    }
+    const { owner, repo } = parseRepository(getTargetRepository());
+    const octokit = new Octokit({ auth: githubToken, baseUrl: getApiUrl() });
+
+    // Reuse the open AI PR from a previous run. One that already covers this
+    // head was found by check-existing-pr.ts, and the run stopped there.
+    const existingPR = await findOpenPR(octokit, owner, repo, branchName);
+    if (existingPR) {
+      console.log(`Updating existing AI PR: ${existingPR.html_url}`);
+      core.setOutput("existing_pr_url", existingPR.html_url);
+    }
+
+    const updateStrategy = process.env.UPDATE_STRATEGY || "force-push";
+    if (!["force-push", "append"].includes(updateStrategy)) {
+      throw new Error(
+        `Invalid update_strategy: ${updateStrategy}. Expected 'force-push' or 'append'`,
       );
-      execFileSync("git", ["checkout", "-b", branchName], {
-        stdio: "pipe",
-        cwd: repoRoot,
-      });
     }
+    const update = resolveBranchUpdate(
+      branchName,
+      remoteBranchExists(repoRoot, branchName),
+      existingPR?.head.ref ?? null,
+      updateStrategy,
+    );
 
+    if (update === "append") {
+      // Add a commit on top of the existing AI branch
+      execFileSync(
+        "git",
+        ["checkout", "-B", branchName, `origin/${branchName}`],
+        { stdio: "pipe", cwd: repoRoot },
+      );
+      console.log(`Checked out existing branch: ${branchName}`);
+      outputBaseSha(repoRoot);
+      core.setOutput("branch_name", branchName);
+      core.setOutput("output_mode", "pr");
+      core.setOutput("force_push", "false");
+      return;
+    }
+
+    checkoutFromBase(repoRoot, branchName, baseBranch);
+
+    // The branch is rebuilt from base, so the AI PR's branch must be replaced
+    core.setOutput("force_push", String(update === "force-push"));
     console.log(`Created branch: ${branchName}`);
+    outputBaseSha(repoRoot);
     core.setOutput("branch_name", branchName);
+    core.setOutput("output_mode", "pr");
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     core.setFailed(`Failed to create branch: ${errorMessage}`);
@@ -68,4 +399,3 @@ function main() {
 if (import.meta.main) {
   main();
 }
-
@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import type { Octokit } from "@octokit/rest";
+import { postSuggestionComment } from "./create-pr.ts";
+
+const PATCH = `From 1234 Mon Sep 17 00:00:00 2001
+Subject: [PATCH] docs: fix typo
+
+diff --git a/README.md b/README.md
+`;
+
+function mockOctokit() {
+  const bodies: string[] = [];
+  const octokit = {
+    rest: {
+      issues: {
+        createComment: async ({ body }: { body: string }) => {
+          bodies.push(body);
+          return {
+            data: {
+              html_url: "https://github.com/acme/widgets/pull/7#issuecomment-1",
+            },
+          };
+        },
+      },
+    },
+  } as unknown as Octokit;
+  return { octokit, bodies };
+}
+
+describe("postSuggestionComment", () => {
+  test("posts the patch with the reason and how to apply it", async () => {
+    const { octokit, bodies } = mockOctokit();
+    const url = await postSuggestionComment(
+      octokit,
+      "acme",
+      "widgets",
+      7,
+      PATCH,
+      "the PR comes from a fork",
+      [],
+    );
+    expect(url).toBe("https://github.com/acme/widgets/pull/7#issuecomment-1");
+    expect(bodies[0]).toStartWith(
+      "The AI assistant suggested changes for this PR, but they were not pushed because the PR comes from a fork.",
+    );
+    expect(bodies[0]).toContain(`\`\`\`diff\n${PATCH}\n\`\`\``);
+    expect(bodies[0]).toEndWith(
+      "Save the patch to a file and apply it with `git am < changes.patch`.",
+    );
+  });
+
+  test("cuts long patches and appends the reports", async () => {
+    const { octokit, bodies } = mockOctokit();
+    await postSuggestionComment(
+      octokit,
+      "acme",
+      "widgets",
+      7,
+      PATCH + "+x\n".repeat(30000),
+      "they failed verification",
+      ["Verification failed after 1 attempt(s)."],
+    );
+    expect(bodies[0]).toContain("\n[... patch truncated]\n```");
+    expect(bodies[0]).toContain(
+      "The patch was too long to show in full. Download it from the workflow run instead.\n\nVerification failed after 1 attempt(s).",
+    );
+    expect(bodies[0]?.length).toBeLessThan(65536);
+  });
+});
@@ -6,7 +6,28 @@
 
 import * as core from "@actions/core";
 import { Octokit } from "@octokit/rest";
-import { substituteVariables, parseRepository, getApiUrl } from "./utils.ts";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import {
+  parseRepository,
+  getApiUrl,
+  getRunUrl,
+  getTargetRepository,
+  getTargetRoot,
+  formatSourceShaMarker,
+  parseList,
+} from "./utils.ts";
+import { applyPRMetadata, parseMergeMethod } from "./pr-metadata.ts";
+import {
+  formatPlanChecklist,
+  parsePlanFormat,
+  parseStructuredPlan,
+} from "./plan.ts";
+import { formatVerificationReport, loadAttempts } from "./verification.ts";
+import {
+  loadVariablesFile,
+  renderTemplate,
+  type TemplateVariables,
+} from "./template.ts";
 
 /**
  * Checks if there are any changes between two branches using GitHub API
@@ -35,6 +56,100 @@ async function hasChanges(
   }
 }
 
+/**
+ * Renders the reports on the changes: a structured plan's steps as a
+ * checklist with any changes that don't line up with the files it declared,
+ * the verification results and the paths reverted for being out of scope
+ */
+function formatReports(): string[] {
+  const reports: string[] = [];
+  const plan = process.env.PLAN || "";
+  if (plan && parsePlanFormat(process.env.PLAN_FORMAT) === "structured") {
+    try {
+      reports.push(formatPlanChecklist(parseStructuredPlan(plan)));
+    } catch (error) {
+      console.warn(
+        `Failed to render the plan checklist: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    const undeclared = parseList(process.env.UNDECLARED_PATHS);
+    if (undeclared.length > 0) {
+      const list = undeclared.map((path) => `- \`${path}\``).join("\n");
+      reports.push(`**Changed files not declared in the plan:**\n\n${list}`);
+    }
+    const untouched = parseList(process.env.UNTOUCHED_PLAN_FILES);
+    if (untouched.length > 0) {
+      const list = untouched.map((path) => `- \`${path}\``).join("\n");
+      reports.push(
+        `**Files declared in the plan but not changed:**\n\n${list}`,
+      );
+    }
+  }
+
+  const verificationFile = process.env.VERIFICATION_RESULTS_FILE;
+  if (verificationFile) {
+    const report = formatVerificationReport(loadAttempts(verificationFile));
+    if (report) {
+      reports.push(report);
+    }
+  }
+
+  const rejectedPaths = parseList(process.env.REJECTED_PATHS);
+  if (rejectedPaths.length > 0) {
+    const list = rejectedPaths.map((path) => `- \`${path}\``).join("\n");
+    reports.push(`**Reverted changes outside the allowed paths:**\n\n${list}`);
+  }
+  return reports;
+}
+
+// GitHub rejects comments longer than 65536 characters
+const MAX_COMMENT_PATCH_LENGTH = 60000;
+
+/**
+ * Posts the AI changes as a patch comment on the source PR, for PRs whose
+ * branch can't be pushed to (e.g. forks) or shouldn't be (e.g. oversized
+ * changes)
+ */
+export async function postSuggestionComment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  patch: string,
+  reason: string,
+  reports: string[],
+): Promise<string> {
+  const truncated = patch.length > MAX_COMMENT_PATCH_LENGTH;
+  const shownPatch = truncated
+    ? `${patch.slice(0, MAX_COMMENT_PATCH_LENGTH)}\n[... patch truncated]`
+    : patch;
+  const body = [
+    `The AI assistant suggested changes for this PR, but they were not pushed because ${reason}.`,
+    "",
+    "<details>",
+    "<summary>Suggested patch</summary>",
+    "",
+    "```diff",
+    shownPatch,
+    "```",
+    "",
+    "</details>",
+    "",
+    truncated
+      ? "The patch was too long to show in full. Download it from the workflow run instead."
+      : "Save the patch to a file and apply it with `git am < changes.patch`.",
+    ...reports.flatMap((report) => ["", report]),
+  ].join("\n");
+
+  const { data: comment } = await octokit.rest.issues.createComment({
+    owner,
+    repo,
+    issue_number: prNumber,
+    body,
+  });
+  return comment.html_url;
+}
+
 async function main() {
   try {
     const branchName = process.env.BRANCH_NAME;
@@ -48,52 +163,196 @@ async function main() {
       throw new Error("GITHUB_TOKEN environment variable is required");
     }
 
-    const repository = process.env.REPOSITORY || "";
+    // The PR goes to the target repository, which may not be the source's
+    const repository = getTargetRepository();
     if (!repository) {
       throw new Error("REPOSITORY environment variable is required");
     }
+    const sourceRepository = process.env.REPOSITORY || repository;
+    const crossRepository = sourceRepository !== repository;
 
     const { owner, repo } = parseRepository(repository);
 
     const baseBranch = process.env.BASE_BRANCH || "main";
+    const sourceType =
+      process.env.SOURCE_TYPE === "issue" || process.env.SOURCE_TYPE === "batch"
+        ? process.env.SOURCE_TYPE
+        : "pr";
+    const issueNumber = process.env.ISSUE_NUMBER || "";
+
+    // One PR covers the whole batch, so its title names the batch
     const prTitleTemplate =
-      process.env.PR_TITLE_TEMPLATE || "chore: Automated changes";
+      process.env.PR_TITLE_TEMPLATE ||
+      (sourceType === "batch"
+        ? "chore: Automated changes for {{BATCH_NAME}}"
+        : "chore: Automated changes");
     const prBodyTemplate =
       process.env.PR_BODY_TEMPLATE ||
       "This PR contains automated changes generated by AI.\n\nGenerated with [docspec-ai/github-ai-actions](https://github.com/docspec-ai/github-ai-actions)";
 
-    // Get PR metadata for variable substitution
-    const prNumber = process.env.PR_NUMBER || "";
-    const prTitle = process.env.PR_TITLE || "";
-    const prAuthor = process.env.PR_AUTHOR || "";
-    const prBody = process.env.PR_BODY || "";
-
     // Create Octokit client
     const octokit = new Octokit({
       auth: githubToken,
       baseUrl: getApiUrl(),
     });
 
-    // Check if there are any changes
-    if (!(await hasChanges(octokit, owner, repo, baseBranch, branchName))) {
+    // Changes were pushed to the source PR or can only be suggested
+    const outputMode = process.env.OUTPUT_MODE || "pr";
+    const sourcePRNumber = parseInt(process.env.PR_NUMBER || "", 10);
+    if (outputMode === "push-to-source") {
+      const { data: sourcePR } = await octokit.rest.pulls.get({
+        owner,
+        repo,
+        pull_number: sourcePRNumber,
+      });
+      console.log(`Changes pushed to source PR: ${sourcePR.html_url}`);
+      // There is no PR body for the reports, so they go in a comment
+      const reports = formatReports();
+      if (reports.length > 0) {
+        const { data: comment } = await octokit.rest.issues.createComment({
+          owner,
+          repo,
+          issue_number: sourcePR.number,
+          body: [
+            "The AI assistant pushed changes to this PR.",
+            ...reports,
+          ].join("\n\n"),
+        });
+        console.log(`Posted the reports on the changes: ${comment.html_url}`);
+      }
+      core.setOutput("pr_url", sourcePR.html_url);
+      core.setOutput("pr_number", String(sourcePR.number));
+      return;
+    }
+    const oversized = process.env.SIZE_LIMIT_ACTION === "draft";
+    const unverified =
+      process.env.VERIFICATION_STATUS === "failed" &&
+      process.env.VERIFY_FAILURE_ACTION !== "push";
+    if (outputMode === "comment") {
+      const patchFile = process.env.PATCH_FILE;
+      if (!patchFile || !existsSync(patchFile)) {
+        throw new Error("PATCH_FILE is required to post a suggestion comment");
+      }
+      const reports: string[] = [];
+      if (oversized) {
+        const list = parseList(process.env.SIZE_LIMIT_VIOLATIONS)
+          .map((violation) => `- ${violation}`)
+          .join("\n");
+        reports.push(`**Exceeded size limits:**\n\n${list}`);
+      }
+      reports.push(...formatReports());
+      const commentUrl = await postSuggestionComment(
+        octokit,
+        owner,
+        repo,
+        sourcePRNumber,
+        readFileSync(patchFile, "utf-8"),
+        oversized
+          ? "they exceed the configured size limits"
+          : unverified
+            ? "they failed verification"
+            : "the PR comes from a fork",
+        reports,
+      );
+      console.log(`Posted suggestion comment: ${commentUrl}`);
+      core.setOutput("comment_url", commentUrl);
+      return;
+    }
+
+    // Check if there are any changes; a dry run's branch only exists locally
+    const dryRun = outputMode === "dry-run";
+    if (
+      !dryRun &&
+      !(await hasChanges(octokit, owner, repo, baseBranch, branchName))
+    ) {
       console.log("No changes detected, skipping PR creation");
       return;
     }
 
-    // Substitute variables in title and body
-    const variables: Record<string, string> = {
-      PR_NUMBER: prNumber,
-      PR_TITLE: prTitle,
-      PR_AUTHOR: prAuthor,
-      PR_BODY: prBody,
-      REPOSITORY: repository,
+    // Render title and body with the same variables as the prompt
+    const variables: TemplateVariables = {
+      ...loadVariablesFile(process.env.VARIABLES_FILE),
+      REPOSITORY: sourceRepository,
+      TARGET_REPOSITORY: repository,
       BASE_BRANCH: baseBranch,
     };
+    // PR metadata passed explicitly takes precedence over the variables file
+    for (const name of ["PR_NUMBER", "PR_TITLE", "PR_AUTHOR", "PR_BODY"]) {
+      const value = process.env[name];
+      if (value) {
+        variables[name] = value;
+      }
+    }
+
+    const renderOptions = {
+      strict: process.env.STRICT_TEMPLATES === "true",
+      workspace: process.env.GITHUB_WORKSPACE || process.cwd(),
+    };
+    const finalTitle = renderTemplate(
+      prTitleTemplate,
+      variables,
+      renderOptions,
+    );
+    let finalBody = renderTemplate(prBodyTemplate, variables, renderOptions);
 
-    const finalTitle = substituteVariables(prTitleTemplate, variables);
-    const finalBody = substituteVariables(prBodyTemplate, variables);
+    // Link the source issue so merging the PR closes it
+    const sourceRef = crossRepository ? sourceRepository : "";
+    if (sourceType === "issue" && issueNumber) {
+      const closes = `Closes ${sourceRef}#${issueNumber}`;
+      if (!finalBody.includes(closes)) {
+        finalBody = `${finalBody.trimEnd()}\n\n${closes}`;
+      }
+    } else if (crossRepository && sourcePRNumber) {
+      // Link back to the source PR in the other repository
+      finalBody = `${finalBody.trimEnd()}\n\nGenerated from ${sourceRef}#${sourcePRNumber}`;
+    } else if (sourceType === "batch") {
+      // Reference each PR of the batch
+      const links = parseList(process.env.PR_NUMBERS)
+        .map((number) => `${sourceRef}#${number}`)
+        .join(", ");
+      finalBody = `${finalBody.trimEnd()}\n\nGenerated from ${links}`;
+    }
 
-    // Check if PR already exists for this branch
+    for (const report of formatReports()) {
+      finalBody = `${finalBody.trimEnd()}\n\n${report}`;
+    }
+
+    // Oversized or unverified changes are opened as a draft with a warning
+    // at the top
+    const forceDraft = oversized || unverified;
+    const draft = forceDraft || process.env.DRAFT === "true";
+    if (unverified) {
+      finalBody = `> [!WARNING]\n> These changes failed verification, so this PR was opened as a draft. See the verification results below.\n\n${finalBody}`;
+    }
+    if (oversized) {
+      const violations = parseList(process.env.SIZE_LIMIT_VIOLATIONS)
+        .map((violation) => `> - ${violation}`)
+        .join("\n");
+      finalBody = `> [!WARNING]\n> These changes exceed the configured size limits, so this PR was opened as a draft. Review them carefully before marking it ready.\n${violations}\n\n${finalBody}`;
+    }
+
+    // Record the source head so reruns on the same head can be skipped
+    const sourceSha = process.env.SOURCE_SHA;
+    if (sourceSha) {
+      finalBody = `${finalBody.trimEnd()}\n\n${formatSourceShaMarker(sourceSha)}`;
+    }
+
+    // A dry run only shows the PR it would have opened
+    if (dryRun) {
+      const prTextFile = `${process.env.RUNNER_TEMP || "/tmp"}/ai-pr.md`;
+      writeFileSync(prTextFile, `# ${finalTitle}\n\n${finalBody}\n`);
+      console.log(
+        `Dry run: would open a ${draft ? "draft " : ""}PR from ${branchName} to ${baseBranch}`,
+      );
+      console.log(`Title: ${finalTitle}`);
+      console.log(`Body:\n${finalBody}`);
+      core.setOutput("pr_title", finalTitle);
+      core.setOutput("pr_body", finalBody);
+      core.setOutput("pr_text_file", prTextFile);
+      return;
+    }
+
+    // Update the PR if one already exists for this branch
     try {
       const { data: existingPRs } = await octokit.rest.pulls.list({
         owner,
@@ -105,8 +364,30 @@ async function main() {
 
       if (existingPRs.length > 0 && existingPRs[0]) {
         const existingPR = existingPRs[0];
-        console.log(`PR already exists: ${existingPR.html_url}`);
+        const runUrl = getRunUrl();
+        await octokit.rest.pulls.update({
+          owner,
+          repo,
+          pull_number: existingPR.number,
+          title: finalTitle,
+          body: runUrl
+            ? `${finalBody}\n\n_Updated by [workflow run](${runUrl})_`
+            : finalBody,
+        });
+        if (forceDraft && !existingPR.draft) {
+          await octokit.graphql(
+            `mutation($id: ID!) {
+              convertPullRequestToDraft(input: { pullRequestId: $id }) {
+                clientMutationId
+              }
+            }`,
+            { id: existingPR.node_id },
+          );
+          console.log("Converted existing PR to draft");
+        }
+        console.log(`Updated existing PR: ${existingPR.html_url}`);
         core.setOutput("pr_url", existingPR.html_url);
+        core.setOutput("pr_number", String(existingPR.number));
         return;
       }
     } catch (error) {
@@ -128,11 +409,35 @@ async function main() {
         body: finalBody,
         head: branchName,
         base: baseBranch,
+        draft,
       });
 
       console.log(`PR created successfully: ${pr.html_url}`);
       core.setOutput("pr_url", pr.html_url);
       core.setOutput("pr_number", String(pr.number));
+
+      // Triage the new PR; an updated PR keeps the triage it already has
+      const reviewFrom = parseList(process.env.REVIEW_FROM);
+      await applyPRMetadata(
+        octokit,
+        owner,
+        repo,
+        { number: pr.number, node_id: pr.node_id, author: pr.user.login },
+        {
+          labels: parseList(process.env.LABELS),
+          assignees: parseList(process.env.ASSIGNEES),
+          milestone: (process.env.MILESTONE || "").trim(),
+          reviewers: parseList(process.env.REVIEWERS),
+          teamReviewers: parseList(process.env.TEAM_REVIEWERS),
+          reviewSourceAuthor: reviewFrom.includes("source-author"),
+          reviewCodeowners: reviewFrom.includes("codeowners"),
+          autoMerge: parseMergeMethod(process.env.AUTO_MERGE),
+        },
+        {
+          repoRoot: getTargetRoot(),
+          sourceAuthor: sourceType === "pr" ? process.env.PR_AUTHOR || "" : "",
+        },
+      );
     } catch (error) {
       // Check if error is because PR already exists (shouldn't happen after our check, but handle it anyway)
       if (error instanceof Error && error.message.includes("already exists")) {
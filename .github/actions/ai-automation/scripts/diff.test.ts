@@ -0,0 +1,140 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { budgetDiff, parseDiffBudget, splitDiff } from "./diff.ts";
+import { matchesAnyGlob, parseList } from "./utils.ts";
+
+function fileDiff(path: string, lines: number): string {
+  const added = Array.from({ length: lines }, (_, i) => `+line ${i}`);
+  return [
+    `diff --git a/${path} b/${path}`,
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -0,0 +1,${lines} @@`,
+    ...added,
+    "",
+  ].join("\n");
+}
+
+describe("parseDiffBudget", () => {
+  test("reads bytes and tokens", () => {
+    expect(parseDiffBudget("120000")).toBe(120000);
+    expect(parseDiffBudget("500 bytes")).toBe(500);
+    expect(parseDiffBudget("30000 tokens")).toBe(120000);
+    expect(parseDiffBudget("1 Token")).toBe(4);
+  });
+
+  test("treats empty input as unlimited", () => {
+    expect(parseDiffBudget(undefined)).toBe(0);
+    expect(parseDiffBudget("  ")).toBe(0);
+  });
+
+  test("rejects anything else", () => {
+    expect(() => parseDiffBudget("10 lines")).toThrow("Invalid diff budget");
+    expect(() => parseDiffBudget("-5")).toThrow("Invalid diff budget");
+  });
+});
+
+describe("splitDiff", () => {
+  test("splits per file and counts changed lines", () => {
+    const files = splitDiff(fileDiff("a.ts", 2) + fileDiff("b.ts", 3));
+    expect(files.map((file) => [file.path, file.additions])).toEqual([
+      ["a.ts", 2],
+      ["b.ts", 3],
+    ]);
+  });
+
+  test("uses the new path of renames and flags binary files", () => {
+    const [renamed, binary] = splitDiff(
+      [
+        "diff --git a/old.ts b/new.ts",
+        "rename from old.ts",
+        "rename to new.ts",
+        "diff --git a/logo.png b/logo.png",
+        "Binary files a/logo.png and b/logo.png differ",
+        "",
+      ].join("\n"),
+    );
+    expect(renamed?.path).toBe("new.ts");
+    expect(binary?.binary).toBe(true);
+  });
+});
+
+describe("budgetDiff", () => {
+  test("keeps the whole diff without a budget", () => {
+    const diff = fileDiff("a.ts", 2) + fileDiff("b.ts", 2);
+    const result = budgetDiff(diff, { maxBytes: 0, exclude: [] });
+    expect(result.diff).toBe(diff);
+    expect(result.truncated).toBe(false);
+    expect(result.stat).toContain("2 files changed, 4 insertions(+)");
+  });
+
+  test("replaces excluded files with a stub", () => {
+    const diff = fileDiff("package-lock.json", 50) + fileDiff("a.ts", 2);
+    const result = budgetDiff(diff, {
+      maxBytes: 0,
+      exclude: ["package-lock.json"],
+    });
+    expect(result.omittedFiles).toEqual(["package-lock.json"]);
+    expect(result.diff).toContain(
+      "[diff excluded by pattern (+50 -0)]\n" + fileDiff("a.ts", 2),
+    );
+    expect(result.truncated).toBe(true);
+  });
+
+  test("shows small files in full and truncates large ones", () => {
+    const small = fileDiff("small.ts", 3);
+    const result = budgetDiff(small + fileDiff("large.ts", 500), {
+      maxBytes: 2000,
+      exclude: [],
+    });
+    expect(result.diff.startsWith(small)).toBe(true);
+    expect(result.truncatedFiles).toEqual(["large.ts"]);
+    expect(result.diff).toContain("more lines (+500 -0 total)]");
+    expect(Buffer.byteLength(result.diff)).toBeLessThanOrEqual(2000);
+  });
+
+  test("falls back to stubs when the budget is too small", () => {
+    const result = budgetDiff(fileDiff("a.ts", 100), {
+      maxBytes: 100,
+      exclude: [],
+    });
+    expect(result.omittedFiles).toEqual(["a.ts"]);
+    expect(result.diff).toBe(
+      "diff --git a/a.ts b/a.ts\n[diff omitted (+100 -0)]\n",
+    );
+  });
+});
+
+describe("default diff_exclude", () => {
+  test("matches lockfiles and build output in any directory", () => {
+    const action = readFileSync(
+      join(import.meta.dir, "..", "action.yml"),
+      "utf-8",
+    );
+    const patterns = parseList(
+      action.match(
+        /^  diff_exclude:\n(?: {4}.*\n)*? {4}default: "(.*)"$/m,
+      )?.[1],
+    );
+    expect(patterns).toContain("package-lock.json");
+
+    for (const path of [
+      "package-lock.json",
+      "packages/web/package-lock.json",
+      "crates/core/Cargo.lock",
+      "src/__snapshots__/app.test.ts.snap",
+      "dist/index.js",
+      "packages/web/dist/assets/app.js",
+    ]) {
+      expect(matchesAnyGlob(path, patterns)).toBe(true);
+    }
+    for (const path of [
+      "src/index.ts",
+      "src/dist.ts",
+      "docs/distribution.md",
+    ]) {
+      expect(matchesAnyGlob(path, patterns)).toBe(false);
+    }
+  });
+});
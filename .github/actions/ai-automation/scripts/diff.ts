@@ -0,0 +1,197 @@
+#!/usr/bin/env bun
+
+/**
+ * Splits unified diffs per file and fits them into a size budget
+ */
+
+import { matchesAnyGlob } from "./utils.ts";
+
+/** Approximate number of bytes per token used to convert token budgets */
+const BYTES_PER_TOKEN = 4;
+
+/** Files whose share of the budget is below this are shown as a stub only */
+const MIN_FILE_BUDGET = 256;
+
+export interface FileDiff {
+  path: string;
+  text: string;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+export interface DiffBudgetOptions {
+  /** Maximum size of the rendered diff in bytes (0 for unlimited) */
+  maxBytes: number;
+  /** Glob patterns for files to leave out of the diff */
+  exclude: string[];
+}
+
+export interface BudgetedDiff {
+  diff: string;
+  stat: string;
+  truncated: boolean;
+  omittedFiles: string[];
+  truncatedFiles: string[];
+}
+
+/**
+ * Parses a diff budget such as "120000", "120000 bytes" or "30000 tokens"
+ * into a number of bytes. Empty input means no limit.
+ */
+export function parseDiffBudget(input: string | undefined): number {
+  const value = (input || "").trim().toLowerCase();
+  if (!value) {
+    return 0;
+  }
+  const match = value.match(/^(\d+)\s*(bytes?|tokens?)?$/);
+  if (!match) {
+    throw new Error(
+      `Invalid diff budget: "${input}". Expected a number of bytes or "<n> tokens"`,
+    );
+  }
+  const amount = parseInt(match[1] || "0", 10);
+  return match[2]?.startsWith("token") ? amount * BYTES_PER_TOKEN : amount;
+}
+
+/**
+ * Splits a unified diff into per-file sections
+ */
+export function splitDiff(diff: string): FileDiff[] {
+  const sections = diff.split(/^(?=diff --git )/m).filter((s) => s.trim());
+  return sections.map((text) => {
+    const header = text.match(/^diff --git a\/(.*?) b\/(.*)$/m);
+    const renamedTo = text.match(/^rename to (.*)$/m);
+    let additions = 0;
+    let deletions = 0;
+    for (const line of text.split("\n")) {
+      if (line.startsWith("+") && !line.startsWith("+++")) {
+        additions++;
+      } else if (line.startsWith("-") && !line.startsWith("---")) {
+        deletions++;
+      }
+    }
+    return {
+      path: renamedTo?.[1] || header?.[2] || header?.[1] || "unknown",
+      text: text.endsWith("\n") ? text : `${text}\n`,
+      additions,
+      deletions,
+      binary: /^Binary files .* differ$/m.test(text),
+    };
+  });
+}
+
+/**
+ * Formats a per-file diffstat with a summary line
+ */
+export function formatDiffStat(files: FileDiff[]): string {
+  if (files.length === 0) {
+    return "0 files changed";
+  }
+  const width = Math.max(...files.map((file) => file.path.length));
+  const lines = files.map((file) =>
+    file.binary
+      ? `${file.path.padEnd(width)} | binary`
+      : `${file.path.padEnd(width)} | +${file.additions} -${file.deletions}`,
+  );
+  const additions = files.reduce((sum, file) => sum + file.additions, 0);
+  const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+  lines.push(
+    `${files.length} file${files.length === 1 ? "" : "s"} changed, ${additions} insertions(+), ${deletions} deletions(-)`,
+  );
+  return lines.join("\n");
+}
+
+function stub(file: FileDiff, reason: string): string {
+  const stat = file.binary ? "binary" : `+${file.additions} -${file.deletions}`;
+  return `diff --git a/${file.path} b/${file.path}\n[diff ${reason} (${stat})]\n`;
+}
+
+/**
+ * Cuts a file diff down to at most maxBytes, ending on a line boundary
+ */
+function truncateFileDiff(file: FileDiff, maxBytes: number): string {
+  const lines = file.text.split("\n");
+  const kept: string[] = [];
+  let size = 0;
+  for (const line of lines) {
+    const lineSize = Buffer.byteLength(line) + 1;
+    if (size + lineSize > maxBytes) {
+      break;
+    }
+    kept.push(line);
+    size += lineSize;
+  }
+  const omitted = lines.length - kept.length;
+  return `${kept.join("\n")}\n[... diff truncated, ${omitted} more lines (+${file.additions} -${file.deletions} total)]\n`;
+}
+
+/**
+ * Applies exclusions and the size budget to a diff. Every file keeps at least
+ * a stub with its diffstat; the remaining budget is shared fairly so small
+ * files are shown in full and large files are truncated.
+ */
+export function budgetDiff(
+  diff: string,
+  options: DiffBudgetOptions,
+): BudgetedDiff {
+  const files = splitDiff(diff);
+  const omittedFiles: string[] = [];
+  const truncatedFiles: string[] = [];
+  const rendered = new Map<FileDiff, string>();
+
+  const included: FileDiff[] = [];
+  for (const file of files) {
+    if (matchesAnyGlob(file.path, options.exclude)) {
+      rendered.set(file, stub(file, "excluded by pattern"));
+      omittedFiles.push(file.path);
+    } else {
+      included.push(file);
+    }
+  }
+
+  if (options.maxBytes <= 0) {
+    for (const file of included) {
+      rendered.set(file, file.text);
+    }
+  } else {
+    // Stubs are always shown, so reserve their space up front
+    const stubs = new Map(included.map((f) => [f, stub(f, "omitted")]));
+    let remaining = options.maxBytes;
+    for (const text of [...rendered.values(), ...stubs.values()]) {
+      remaining -= Buffer.byteLength(text);
+    }
+
+    // Smallest files first: each gets at most an equal share of what's left
+    const bySize = [...included].sort(
+      (a, b) => Buffer.byteLength(a.text) - Buffer.byteLength(b.text),
+    );
+    bySize.forEach((file, index) => {
+      const fileStub = stubs.get(file) || "";
+      const size = Buffer.byteLength(file.text);
+      const stubSize = Buffer.byteLength(fileStub);
+      const share = stubSize + Math.max(0, remaining) / (bySize.length - index);
+
+      if (size <= share) {
+        rendered.set(file, file.text);
+        remaining -= size - stubSize;
+      } else if (share - stubSize >= MIN_FILE_BUDGET) {
+        const text = truncateFileDiff(file, Math.floor(share) - 80);
+        rendered.set(file, text);
+        remaining -= Buffer.byteLength(text) - stubSize;
+        truncatedFiles.push(file.path);
+      } else {
+        rendered.set(file, fileStub);
+        omittedFiles.push(file.path);
+      }
+    });
+  }
+
+  return {
+    diff: files.map((file) => rendered.get(file) || "").join(""),
+    stat: formatDiffStat(files),
+    truncated: omittedFiles.length > 0 || truncatedFiles.length > 0,
+    omittedFiles,
+    truncatedFiles,
+  };
+}
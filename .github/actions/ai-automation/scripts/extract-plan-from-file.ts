@@ -2,29 +2,46 @@
 
 /**
  * Extract plan from a file written by the AI assistant during plan phase.
+ * Providers that answer instead of writing the file fall back to their output.
  */
 
-import { readFileSync, existsSync } from "fs";
 import * as core from "@actions/core";
+import { parsePlanFormat, parseStructuredPlan } from "./plan.ts";
+import { getProvider } from "./providers.ts";
 
 const PLAN_FILE = process.env.PLAN_FILE || `${process.env.RUNNER_TEMP || "/tmp"}/plan.txt`;
 
 try {
   let plan: string | null = null;
 
-  // Read from the plan file
-  if (existsSync(PLAN_FILE)) {
-    try {
-      plan = readFileSync(PLAN_FILE, "utf-8").trim();
-    } catch (error) {
-      throw new Error(`Failed to read plan file ${PLAN_FILE}: ${error}`);
-    }
+  // Read from the plan file, or the provider's output if it answered instead
+  try {
+    plan = getProvider(process.env.PROVIDER || "claude").collectPlan({
+      planFile: PLAN_FILE,
+      output: process.env.PROVIDER_OUTPUT || "",
+      outputFile: process.env.PROVIDER_OUTPUT_FILE || "",
+      executionFile: "",
+      usageFile: "",
+    });
+  } catch (error) {
+    throw new Error(`Failed to read plan file ${PLAN_FILE}: ${error}`);
   }
 
   if (!plan || plan.length === 0) {
     throw new Error(`Plan not found. Expected plan file at ${PLAN_FILE}`);
   }
 
+  // Structured plans must match the plan schema
+  if (parsePlanFormat(process.env.PLAN_FORMAT) === "structured") {
+    try {
+      parseStructuredPlan(plan);
+    } catch (error) {
+      throw new Error(
+        `Invalid structured plan in ${PLAN_FILE}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
   // Output to stdout for subprocess capture
   console.log(plan);
 } catch (error) {
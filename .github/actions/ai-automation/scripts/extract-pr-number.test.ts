@@ -0,0 +1,104 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import type { Octokit } from "@octokit/rest";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { extractPRNumberFromIssue } from "./extract-pr-number.ts";
+
+function mockOctokit(get: () => Promise<unknown>) {
+  return { rest: { issues: { get } } } as unknown as Octokit;
+}
+
+describe("extractPRNumberFromIssue", () => {
+  test("reads the PR number of a PR's issue", async () => {
+    const octokit = mockOctokit(async () => ({
+      data: {
+        pull_request: {
+          url: "https://api.github.com/repos/acme/widgets/pulls/12",
+        },
+      },
+    }));
+    expect(await extractPRNumberFromIssue(octokit, "acme", "widgets", 12)).toBe(
+      12,
+    );
+  });
+
+  test("returns null for plain issues", async () => {
+    const octokit = mockOctokit(async () => ({ data: { pull_request: null } }));
+    expect(
+      await extractPRNumberFromIssue(octokit, "acme", "widgets", 3),
+    ).toBeNull();
+  });
+
+  test("fails instead of falling back to the issue when the fetch fails", async () => {
+    const octokit = mockOctokit(async () => {
+      throw new Error("Bad credentials");
+    });
+    await expect(
+      extractPRNumberFromIssue(octokit, "acme", "widgets", 12),
+    ).rejects.toThrow("Failed to fetch issue #12: Bad credentials");
+  });
+});
+
+describe("batch inputs", () => {
+  const outputDir = mkdtempSync(join(tmpdir(), "extract-pr-number-test-"));
+  const outputFile = join(outputDir, "output");
+
+  afterAll(() => {
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  // Runs the script; batch_prs needs no API calls, so nothing goes out
+  const run = (env: Record<string, string>) => {
+    writeFileSync(outputFile, "");
+    const result = spawnSync(
+      process.execPath,
+      [join(import.meta.dir, "extract-pr-number.ts")],
+      {
+        encoding: "utf-8",
+        env: {
+          PATH: process.env.PATH,
+          GITHUB_OUTPUT: outputFile,
+          GITHUB_REPOSITORY: "acme/widgets",
+          GITHUB_TOKEN: "token",
+          ...env,
+        },
+      },
+    );
+    const outputs: Record<string, string> = {};
+    const content = readFileSync(outputFile, "utf-8");
+    for (const match of content.matchAll(/^(\w+)<<(\S+)\n([\s\S]*?)\n\2$/gm)) {
+      outputs[match[1] ?? ""] = match[3] ?? "";
+    }
+    return { status: result.status, stdout: result.stdout, outputs };
+  };
+
+  test("take precedence over the event", () => {
+    const { status, outputs } = run({
+      BATCH_PRS: "12, 15",
+      GITHUB_EVENT_PULL_REQUEST_NUMBER: "3",
+    });
+    expect(status).toBe(0);
+    expect(outputs).toEqual({
+      source_type: "batch",
+      pr_numbers: "12,15",
+      batch_name: "#12, #15",
+      batch_id: "12-15",
+    });
+  });
+
+  test("can't be combined with an explicit PR or issue", () => {
+    for (const input of ["PR_NUMBER", "ISSUE_NUMBER"]) {
+      const { status, stdout, outputs } = run({
+        BATCH_PRS: "12",
+        [input]: "3",
+      });
+      expect(status).toBe(1);
+      expect(stdout).toContain(
+        "The batch inputs can't be combined with pr_number or issue_number",
+      );
+      expect(outputs).toEqual({});
+    }
+  });
+});
@@ -1,54 +1,132 @@
 #!/usr/bin/env bun
 
 /**
- * Extracts PR number from GitHub event context or explicit input.
- * Supports multiple event types: pull_request, issue_comment, workflow_dispatch, etc.
+ * Extracts the source PR or issue number from GitHub event context or explicit input.
+ * Supports multiple event types: pull_request, issues, issue_comment, workflow_dispatch, etc.
+ * Outputs source_type ("pr" or "issue") along with pr_number or issue_number,
+ * or source_type "batch" with pr_numbers for the batch inputs.
  */
 
 import * as core from "@actions/core";
 import { Octokit } from "@octokit/rest";
+import {
+  formatBatchId,
+  formatBatchName,
+  parseBatchOptions,
+  resolveBatch,
+} from "./batch.ts";
 import { getApiUrl, parseRepository } from "./utils.ts";
 
-async function extractPRNumberFromIssue(
+/**
+ * Returns the PR number if the issue is a pull request, or null if it is a
+ * plain issue. Failing to fetch the issue is an error: the run must not go
+ * ahead with an issue as source when it was triggered on a PR.
+ */
+export async function extractPRNumberFromIssue(
   octokit: Octokit,
   owner: string,
   repo: string,
   issueNumber: number,
 ): Promise<number | null> {
+  let issue;
   try {
-    const { data: issue } = await octokit.rest.issues.get({
+    ({ data: issue } = await octokit.rest.issues.get({
       owner,
       repo,
       issue_number: issueNumber,
-    });
-
-    // Check if the issue is actually a PR
-    if (issue.pull_request?.url) {
-      // Extract PR number from URL (format: .../pulls/{number})
-      const urlParts = issue.pull_request.url.split("/");
-      const prNumber = parseInt(urlParts[urlParts.length - 1] || "", 10);
-      if (!isNaN(prNumber)) {
-        return prNumber;
-      }
-    }
-    return null;
+    }));
   } catch (error) {
-    console.warn(
+    throw new Error(
       `Failed to fetch issue #${issueNumber}: ${error instanceof Error ? error.message : String(error)}`,
     );
+  }
+
+  // Check if the issue is actually a PR
+  if (!issue.pull_request?.url) {
     return null;
   }
+  // Extract PR number from URL (format: .../pulls/{number})
+  const urlParts = issue.pull_request.url.split("/");
+  const prNumber = parseInt(urlParts[urlParts.length - 1] || "", 10);
+  if (isNaN(prNumber)) {
+    throw new Error(
+      `Could not read the PR number from ${issue.pull_request.url}`,
+    );
+  }
+  return prNumber;
+}
+
+function setPRSource(prNumber: number) {
+  core.setOutput("source_type", "pr");
+  core.setOutput("pr_number", String(prNumber));
+}
+
+function setIssueSource(issueNumber: number) {
+  core.setOutput("source_type", "issue");
+  core.setOutput("issue_number", String(issueNumber));
+}
+
+function setBatchSource(name: string, prNumbers: number[]) {
+  core.setOutput("source_type", "batch");
+  core.setOutput("pr_numbers", prNumbers.join(","));
+  core.setOutput("batch_name", name);
+  core.setOutput("batch_id", formatBatchId(name));
 }
 
 async function main() {
   try {
+    // Batch inputs take precedence over the event
+    const batch = parseBatchOptions({
+      prs: process.env.BATCH_PRS,
+      label: process.env.BATCH_LABEL,
+      range: process.env.BATCH_RANGE,
+      maxPRs: process.env.BATCH_MAX_PRS,
+    });
+    if (batch) {
+      if (process.env.PR_NUMBER?.trim() || process.env.ISSUE_NUMBER?.trim()) {
+        throw new Error(
+          "The batch inputs can't be combined with pr_number or issue_number",
+        );
+      }
+      if (!process.env.GITHUB_TOKEN) {
+        throw new Error("GITHUB_TOKEN environment variable is required");
+      }
+      const { owner, repo } = parseRepository(
+        process.env.GITHUB_REPOSITORY || "",
+      );
+      const name = formatBatchName(batch);
+      const prNumbers = await resolveBatch(
+        new Octokit({ auth: process.env.GITHUB_TOKEN, baseUrl: getApiUrl() }),
+        owner,
+        repo,
+        process.env.GITHUB_WORKSPACE || process.cwd(),
+        batch,
+      );
+      console.log(
+        `Batch ${name}: ${prNumbers.map((number) => `#${number}`).join(", ")}`,
+      );
+      setBatchSource(name, prNumbers);
+      return;
+    }
+
     // Check for explicitly provided PR number
     const explicitPRNumber = process.env.PR_NUMBER;
     if (explicitPRNumber && explicitPRNumber.trim() !== "") {
       const prNum = parseInt(explicitPRNumber.trim(), 10);
       if (!isNaN(prNum)) {
         console.log(`Using explicitly provided PR number: ${prNum}`);
-        core.setOutput("pr_number", String(prNum));
+        setPRSource(prNum);
+        return;
+      }
+    }
+
+    // Check for explicitly provided issue number
+    const explicitIssueNumber = process.env.ISSUE_NUMBER;
+    if (explicitIssueNumber && explicitIssueNumber.trim() !== "") {
+      const issueNum = parseInt(explicitIssueNumber.trim(), 10);
+      if (!isNaN(issueNum)) {
+        console.log(`Using explicitly provided issue number: ${issueNum}`);
+        setIssueSource(issueNum);
         return;
       }
     }
@@ -79,30 +157,38 @@ async function main() {
       const prNum = parseInt(pullRequestNumber, 10);
       if (!isNaN(prNum)) {
         console.log(`Extracted PR number from pull_request event: ${prNum}`);
-        core.setOutput("pr_number", String(prNum));
+        setPRSource(prNum);
         return;
       }
     }
 
-    // Try to extract from issue_comment event
+    // Try to extract from issues or issue_comment event
     const issueNumber = process.env.GITHUB_EVENT_ISSUE_NUMBER;
     if (issueNumber) {
       const issueNum = parseInt(issueNumber, 10);
       if (!isNaN(issueNum)) {
-        const prNumber = await extractPRNumberFromIssue(octokit, owner, repo, issueNum);
+        const prNumber = await extractPRNumberFromIssue(
+          octokit,
+          owner,
+          repo,
+          issueNum,
+        );
         if (prNumber !== null) {
           console.log(`Extracted PR number from issue comment: ${prNumber}`);
-          core.setOutput("pr_number", String(prNumber));
-          return;
+          setPRSource(prNumber);
         } else {
-          throw new Error(`Issue #${issueNum} is not a pull request`);
+          console.log(
+            `Issue #${issueNum} is not a pull request, using issue as source`,
+          );
+          setIssueSource(issueNum);
         }
+        return;
       }
     }
 
-    // If we get here, we couldn't extract a PR number
+    // If we get here, we couldn't extract a source number
     throw new Error(
-      `Could not extract PR number from event context. Event name: ${eventName}. Please provide pr_number input explicitly, or trigger from a PR-related event.`,
+      `Could not extract PR or issue number from event context. Event name: ${eventName}. Please provide pr_number or issue_number input explicitly, or trigger from a PR or issue event.`,
     );
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -114,4 +200,3 @@ async function main() {
 if (import.meta.main) {
   main();
 }
-
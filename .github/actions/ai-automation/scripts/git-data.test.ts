@@ -0,0 +1,206 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import type { Octokit } from "@octokit/rest";
+import { execFileSync } from "child_process";
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { pushCommitsViaApi } from "./git-data.ts";
+
+const repoRoot = mkdtempSync(join(tmpdir(), "git-data-test-"));
+const git = (...args: string[]) =>
+  execFileSync("git", args, {
+    cwd: repoRoot,
+    encoding: "utf-8",
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: "Ada",
+      GIT_AUTHOR_EMAIL: "ada@example.com",
+      GIT_AUTHOR_DATE: "2024-01-02T03:04:05Z",
+      GIT_COMMITTER_NAME: "test",
+      GIT_COMMITTER_EMAIL: "test@example.com",
+    },
+  }).trim();
+
+git("init", "-q");
+writeFileSync(join(repoRoot, "keep.txt"), "one\n");
+writeFileSync(join(repoRoot, "old.txt"), "moved\n");
+writeFileSync(join(repoRoot, "gone.txt"), "gone\n");
+writeFileSync(join(repoRoot, "run.sh"), "echo hi\n");
+git("add", "-A");
+git("commit", "-q", "-m", "base");
+const baseSha = git("rev-parse", "HEAD");
+const baseTree = git("rev-parse", "HEAD^{tree}");
+
+writeFileSync(join(repoRoot, "keep.txt"), "two\n");
+git("mv", "old.txt", "new.txt");
+git("rm", "-q", "gone.txt");
+chmodSync(join(repoRoot, "run.sh"), 0o755);
+git("add", "-A");
+git("commit", "-q", "-m", "Rework files\n\nWith a body.");
+const firstTree = git("rev-parse", "HEAD^{tree}");
+writeFileSync(join(repoRoot, "added.txt"), "added\n");
+git("add", "-A");
+git("commit", "-q", "-m", "Add a file");
+
+afterAll(() => {
+  rmSync(repoRoot, { recursive: true, force: true });
+});
+
+const base64 = (text: string) => Buffer.from(text).toString("base64");
+
+function mockOctokit(getRefError?: Error) {
+  const calls: Array<[string, Record<string, unknown>]> = [];
+  let count = 0;
+  const record =
+    (name: string, data: (n: number) => unknown) =>
+    async (params: Record<string, unknown>) => {
+      calls.push([name, params]);
+      count++;
+      return { data: data(count) };
+    };
+  const octokit = {
+    rest: {
+      git: {
+        createBlob: record("createBlob", (n) => ({ sha: `blob-${n}` })),
+        createTree: record("createTree", (n) => ({ sha: `tree-${n}` })),
+        createCommit: record("createCommit", (n) => ({
+          sha: `commit-${n}`,
+          verification: { verified: true },
+        })),
+        getRef: async (params: Record<string, unknown>) => {
+          calls.push(["getRef", params]);
+          if (getRefError) {
+            throw getRefError;
+          }
+          return { data: {} };
+        },
+        createRef: record("createRef", () => ({})),
+        updateRef: record("updateRef", () => ({})),
+      },
+    },
+  } as unknown as Octokit;
+  return { octokit, calls };
+}
+
+const httpError = (status: number) =>
+  Object.assign(new Error(`HTTP ${status}`), { status });
+
+const push = (octokit: Octokit, force = false) =>
+  pushCommitsViaApi(octokit, "acme", "widgets", {
+    repoRoot,
+    baseSha,
+    branchName: "ai/pr-7-docs",
+    force,
+  });
+
+describe("pushCommitsViaApi", () => {
+  test("recreates each commit from blobs and trees", async () => {
+    const { octokit, calls } = mockOctokit();
+    expect(await push(octokit)).toBe("commit-8");
+
+    const names = calls.map(([name]) => name);
+    expect(names).toEqual([
+      "createBlob",
+      "createBlob",
+      "createBlob",
+      "createTree",
+      "createCommit",
+      "createBlob",
+      "createTree",
+      "createCommit",
+      "getRef",
+      "updateRef",
+    ]);
+    expect(calls.slice(0, 3).map(([, params]) => params.content)).toEqual([
+      base64("two\n"),
+      base64("moved\n"),
+      base64("echo hi\n"),
+    ]);
+  });
+
+  test("maps deletions, renames and executable bits to tree entries", async () => {
+    const { octokit, calls } = mockOctokit();
+    await push(octokit);
+
+    const trees = calls.filter(([name]) => name === "createTree");
+    expect(trees[0]?.[1]).toEqual({
+      owner: "acme",
+      repo: "widgets",
+      base_tree: baseTree,
+      tree: [
+        { path: "gone.txt", mode: "100644", type: "blob", sha: null },
+        { path: "keep.txt", mode: "100644", type: "blob", sha: "blob-1" },
+        { path: "new.txt", mode: "100644", type: "blob", sha: "blob-2" },
+        { path: "old.txt", mode: "100644", type: "blob", sha: null },
+        { path: "run.sh", mode: "100755", type: "blob", sha: "blob-3" },
+      ],
+    });
+    expect(trees[1]?.[1].base_tree).toBe(firstTree);
+  });
+
+  test("chains the commits and keeps the author", async () => {
+    const { octokit, calls } = mockOctokit();
+    await push(octokit);
+
+    const commits = calls
+      .filter(([name]) => name === "createCommit")
+      .map(([, params]) => params);
+    expect(commits).toEqual([
+      {
+        owner: "acme",
+        repo: "widgets",
+        message: "Rework files\n\nWith a body.",
+        tree: "tree-4",
+        parents: [baseSha],
+        author: {
+          name: "Ada",
+          email: "ada@example.com",
+          date: "2024-01-02T03:04:05+00:00",
+        },
+      },
+      expect.objectContaining({
+        message: "Add a file",
+        tree: "tree-7",
+        parents: ["commit-5"],
+      }),
+    ]);
+  });
+
+  test("only fast-forwards an existing branch unless forced", async () => {
+    const { octokit, calls } = mockOctokit();
+    await push(octokit);
+    expect(calls.at(-1)).toEqual([
+      "updateRef",
+      {
+        owner: "acme",
+        repo: "widgets",
+        ref: "heads/ai/pr-7-docs",
+        sha: "commit-8",
+        force: false,
+      },
+    ]);
+
+    const forced = mockOctokit();
+    await push(forced.octokit, true);
+    expect(forced.calls.at(-1)?.[1].force).toBe(true);
+  });
+
+  test("creates a missing branch", async () => {
+    const { octokit, calls } = mockOctokit(httpError(404));
+    await push(octokit);
+    expect(calls.at(-1)).toEqual([
+      "createRef",
+      {
+        owner: "acme",
+        repo: "widgets",
+        ref: "refs/heads/ai/pr-7-docs",
+        sha: "commit-8",
+      },
+    ]);
+  });
+
+  test("passes on other errors", async () => {
+    const { octokit } = mockOctokit(httpError(500));
+    await expect(push(octokit)).rejects.toThrow("HTTP 500");
+  });
+});
@@ -0,0 +1,213 @@
+#!/usr/bin/env bun
+
+/**
+ * Recreates local commits through the GitHub Git Data API (blobs, trees,
+ * commits and refs). Commits created this way without an explicit committer
+ * are signed by GitHub, so they show up as verified and satisfy "require
+ * signed commits" branch protection.
+ */
+
+import { Octokit } from "@octokit/rest";
+import { execFileSync } from "child_process";
+import { getErrorStatus } from "./utils.ts";
+
+type TreeMode = "100644" | "100755" | "040000" | "160000" | "120000";
+
+interface TreeEntry {
+  path: string;
+  mode: TreeMode;
+  type: "blob" | "tree" | "commit";
+  sha: string | null;
+}
+
+export interface ApiPushOptions {
+  repoRoot: string;
+  /** Commit the local commits were made on top of; must exist on the remote */
+  baseSha: string;
+  branchName: string;
+  /** Allow a non-fast-forward ref update */
+  force: boolean;
+}
+
+function git(args: string[], cwd: string): string {
+  return execFileSync("git", args, {
+    encoding: "utf-8",
+    cwd,
+    maxBuffer: 512 * 1024 * 1024,
+  });
+}
+
+/**
+ * Lists the tree entries a commit changes relative to its parent. Renames
+ * are reported as a deletion plus an addition, which is how trees store them.
+ */
+function listTreeChanges(
+  repoRoot: string,
+  parent: string,
+  commit: string,
+): Array<{ path: string; mode: string; sha: string; deleted: boolean }> {
+  const output = git(
+    ["diff-tree", "-r", "-z", "--no-renames", "--raw", parent, commit],
+    repoRoot,
+  );
+  const entries = output.split("\0");
+  const changes = [];
+  for (let i = 0; i < entries.length - 1; i += 2) {
+    // ":<old mode> <new mode> <old sha> <new sha> <status>" then the path
+    const [, newMode = "", , newSha = "", status = ""] = (entries[i] || "")
+      .slice(1)
+      .split(" ");
+    const path = entries[i + 1] || "";
+    changes.push({
+      path,
+      mode: newMode,
+      sha: newSha,
+      deleted: status.startsWith("D"),
+    });
+  }
+  return changes;
+}
+
+/**
+ * Uploads a commit's changed files as blobs and returns the tree entries
+ */
+async function createTreeEntries(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  repoRoot: string,
+  parent: string,
+  commit: string,
+): Promise<TreeEntry[]> {
+  const entries: TreeEntry[] = [];
+  for (const change of listTreeChanges(repoRoot, parent, commit)) {
+    if (change.deleted) {
+      entries.push({
+        path: change.path,
+        mode: "100644",
+        type: "blob",
+        sha: null,
+      });
+      continue;
+    }
+    const mode = change.mode as TreeMode;
+    // Submodules point at a commit in another repository; nothing to upload
+    if (mode === "160000") {
+      entries.push({
+        path: change.path,
+        mode,
+        type: "commit",
+        sha: change.sha,
+      });
+      continue;
+    }
+    // Base64 keeps binary content intact; symlink blobs hold their target
+    const content = execFileSync("git", ["cat-file", "blob", change.sha], {
+      cwd: repoRoot,
+      maxBuffer: 512 * 1024 * 1024,
+    });
+    const { data: blob } = await octokit.rest.git.createBlob({
+      owner,
+      repo,
+      content: content.toString("base64"),
+      encoding: "base64",
+    });
+    entries.push({ path: change.path, mode, type: "blob", sha: blob.sha });
+  }
+  return entries;
+}
+
+/**
+ * Points the branch at a commit, creating the branch if it doesn't exist
+ */
+async function updateBranch(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branchName: string,
+  sha: string,
+  force: boolean,
+): Promise<void> {
+  try {
+    await octokit.rest.git.getRef({ owner, repo, ref: `heads/${branchName}` });
+  } catch (error) {
+    if (getErrorStatus(error) !== 404) {
+      throw error;
+    }
+    await octokit.rest.git.createRef({
+      owner,
+      repo,
+      ref: `refs/heads/${branchName}`,
+      sha,
+    });
+    return;
+  }
+  await octokit.rest.git.updateRef({
+    owner,
+    repo,
+    ref: `heads/${branchName}`,
+    sha,
+    force,
+  });
+}
+
+/**
+ * Recreates the commits in baseSha..HEAD on the remote and updates the
+ * branch to the last one. Returns the SHA of the new branch head.
+ */
+export async function pushCommitsViaApi(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  options: ApiPushOptions,
+): Promise<string> {
+  const { repoRoot, baseSha, branchName, force } = options;
+  const commits = git(
+    ["rev-list", "--reverse", "--first-parent", `${baseSha}..HEAD`],
+    repoRoot,
+  )
+    .split("\n")
+    .filter((sha) => sha.length > 0);
+
+  let localParent = baseSha;
+  let remoteParent = baseSha;
+  for (const commit of commits) {
+    const tree = await createTreeEntries(
+      octokit,
+      owner,
+      repo,
+      repoRoot,
+      localParent,
+      commit,
+    );
+    const { data: newTree } = await octokit.rest.git.createTree({
+      owner,
+      repo,
+      base_tree: git(["rev-parse", `${localParent}^{tree}`], repoRoot).trim(),
+      tree,
+    });
+
+    // Keep the author; leaving out the committer lets GitHub sign the commit
+    const [name = "", email = "", date = "", ...messageLines] = git(
+      ["show", "-s", "--format=%an%n%ae%n%aI%n%B", commit],
+      repoRoot,
+    ).split("\n");
+    const { data: newCommit } = await octokit.rest.git.createCommit({
+      owner,
+      repo,
+      message: messageLines.join("\n").trimEnd(),
+      tree: newTree.sha,
+      parents: [remoteParent],
+      author: { name, email, date },
+    });
+    console.log(
+      `Created commit ${newCommit.sha} (verified: ${newCommit.verification?.verified ?? false})`,
+    );
+
+    localParent = commit;
+    remoteParent = newCommit.sha;
+  }
+
+  await updateBranch(octokit, owner, repo, branchName, remoteParent, force);
+  return remoteParent;
+}
@@ -0,0 +1,167 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { execFileSync } from "child_process";
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  checkSizeLimits,
+  findOutOfScopePaths,
+  listChangedPaths,
+  measureStagedChanges,
+  parseSizeLimit,
+  parseSizeLimitAction,
+  revertPaths,
+} from "./guardrails.ts";
+
+describe("findOutOfScopePaths", () => {
+  const changes = [
+    { path: "src/a.ts", status: " M" },
+    { path: ".github/workflows/ci.yml", status: "??" },
+    { path: "src/b.ts", status: "R ", originalPath: "lib/b.ts" },
+  ];
+
+  test("allows everything that isn't blocked without allowed paths", () => {
+    expect(
+      findOutOfScopePaths(changes, {
+        allowed: [],
+        blocked: [".github/**"],
+      }).map((change) => change.path),
+    ).toEqual([".github/workflows/ci.yml"]);
+  });
+
+  test("requires both sides of a rename to be allowed", () => {
+    expect(
+      findOutOfScopePaths(changes, {
+        allowed: ["src/**"],
+        blocked: [],
+      }).map((change) => change.path),
+    ).toEqual([".github/workflows/ci.yml", "src/b.ts"]);
+  });
+});
+
+describe("parseSizeLimit", () => {
+  test("reads a maximum with an optional action", () => {
+    expect(parseSizeLimit("max_files", "files", "50", "draft")).toEqual({
+      name: "max_files",
+      metric: "files",
+      max: 50,
+      action: "draft",
+    });
+    expect(parseSizeLimit("max_lines", "lines", "10 : fail", "draft")).toEqual({
+      name: "max_lines",
+      metric: "lines",
+      max: 10,
+      action: "fail",
+    });
+    expect(parseSizeLimit("max_files", "files", " ", "draft")).toBeNull();
+  });
+
+  test("rejects unknown actions and non-numbers", () => {
+    expect(() =>
+      parseSizeLimit("max_files", "files", "50:warn", "draft"),
+    ).toThrow('Invalid max_files: "50:warn"');
+    expect(() => parseSizeLimit("max_files", "files", "many", "draft")).toThrow(
+      "Invalid max_files",
+    );
+  });
+});
+
+describe("parseSizeLimitAction", () => {
+  test("defaults to draft and rejects unknown actions", () => {
+    expect(parseSizeLimitAction(undefined)).toBe("draft");
+    expect(parseSizeLimitAction("patch")).toBe("patch");
+    expect(() => parseSizeLimitAction("warn")).toThrow(
+      "Invalid size_limit_action",
+    );
+  });
+});
+
+describe("checkSizeLimits", () => {
+  test("reports every violation and picks the most severe action", () => {
+    const result = checkSizeLimits({ files: 5, lines: 300, deletedFiles: 0 }, [
+      { name: "max_files", metric: "files", max: 2, action: "draft" },
+      { name: "max_lines", metric: "lines", max: 100, action: "patch" },
+      {
+        name: "max_deleted_files",
+        metric: "deletedFiles",
+        max: 0,
+        action: "fail",
+      },
+    ]);
+    expect(result).toEqual({
+      action: "patch",
+      violations: ["max_files: 5 > 2", "max_lines: 300 > 100"],
+    });
+  });
+
+  test("returns no action within the limits", () => {
+    expect(
+      checkSizeLimits({ files: 1, lines: 1, deletedFiles: 0 }, [
+        { name: "max_files", metric: "files", max: 1, action: "fail" },
+      ]),
+    ).toEqual({ action: null, violations: [] });
+  });
+});
+
+describe("working tree changes", () => {
+  const repoRoot = mkdtempSync(join(tmpdir(), "guardrails-test-"));
+  const git = (...args: string[]) =>
+    execFileSync("git", args, {
+      cwd: repoRoot,
+      encoding: "utf-8",
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: "test",
+        GIT_AUTHOR_EMAIL: "test@example.com",
+        GIT_COMMITTER_NAME: "test",
+        GIT_COMMITTER_EMAIL: "test@example.com",
+      },
+    });
+  git("init", "-q");
+  writeFileSync(join(repoRoot, "keep.txt"), "one\ntwo\n");
+  writeFileSync(join(repoRoot, "old.txt"), "old\n");
+  writeFileSync(join(repoRoot, "gone.txt"), "gone\n");
+  git("add", "-A");
+  git("commit", "-q", "-m", "base");
+  const baseSha = git("rev-parse", "HEAD").trim();
+
+  afterAll(() => {
+    rmSync(repoRoot, { recursive: true, force: true });
+  });
+
+  test("lists, measures and reverts changes", () => {
+    writeFileSync(join(repoRoot, "keep.txt"), "one\nTWO\nthree\n");
+    git("mv", "old.txt", "new.txt");
+    git("rm", "-q", "gone.txt");
+    writeFileSync(join(repoRoot, "added.txt"), "added\n");
+
+    expect(
+      listChangedPaths(repoRoot).sort((a, b) => a.path.localeCompare(b.path)),
+    ).toEqual([
+      { path: "added.txt", status: "??" },
+      { path: "gone.txt", status: "D " },
+      { path: "keep.txt", status: " M" },
+      { path: "new.txt", status: "R ", originalPath: "old.txt" },
+    ]);
+
+    git("add", "-A");
+    expect(measureStagedChanges(repoRoot, baseSha)).toEqual({
+      files: 4,
+      lines: 5,
+      deletedFiles: 1,
+    });
+
+    revertPaths(repoRoot, listChangedPaths(repoRoot));
+    expect(listChangedPaths(repoRoot)).toEqual([]);
+    expect(readFileSync(join(repoRoot, "keep.txt"), "utf-8")).toBe(
+      "one\ntwo\n",
+    );
+    expect(existsSync(join(repoRoot, "added.txt"))).toBe(false);
+  });
+});
@@ -0,0 +1,237 @@
+#!/usr/bin/env bun
+
+/**
+ * Guardrails applied to the AI assistant's working-tree changes before they
+ * are committed
+ */
+
+import { execFileSync } from "child_process";
+import { rmSync } from "fs";
+import { join } from "path";
+import { matchesAnyGlob } from "./utils.ts";
+
+export interface ChangedPath {
+  path: string;
+  /** Two-letter porcelain status, e.g. " M", "??", "R " */
+  status: string;
+  /** Original path for renames and copies */
+  originalPath?: string;
+}
+
+export interface PathPolicy {
+  /** If non-empty, only paths matching one of these globs may change */
+  allowed: string[];
+  /** Paths matching one of these globs may never change */
+  blocked: string[];
+}
+
+/**
+ * Lists working-tree changes, including each untracked file individually
+ */
+export function listChangedPaths(repoRoot: string): ChangedPath[] {
+  const output = execFileSync(
+    "git",
+    ["status", "--porcelain", "-z", "--untracked-files=all"],
+    { encoding: "utf-8", cwd: repoRoot },
+  );
+  const entries = output.split("\0");
+  const changes: ChangedPath[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry) {
+      continue;
+    }
+    const status = entry.slice(0, 2);
+    const change: ChangedPath = { path: entry.slice(3), status };
+    // Renames and copies are followed by the original path
+    if (status.includes("R") || status.includes("C")) {
+      change.originalPath = entries[++i];
+    }
+    changes.push(change);
+  }
+  return changes;
+}
+
+/**
+ * Returns the changed paths that are outside the policy. For renames, both
+ * the old and the new path must be in scope.
+ */
+export function findOutOfScopePaths(
+  changes: ChangedPath[],
+  policy: PathPolicy,
+): ChangedPath[] {
+  const inScope = (path: string) =>
+    (policy.allowed.length === 0 || matchesAnyGlob(path, policy.allowed)) &&
+    !matchesAnyGlob(path, policy.blocked);
+  return changes.filter(
+    (change) =>
+      !inScope(change.path) ||
+      (change.originalPath !== undefined && !inScope(change.originalPath)),
+  );
+}
+
+function existsInHead(repoRoot: string, path: string): boolean {
+  try {
+    execFileSync("git", ["cat-file", "-e", `HEAD:${path}`], {
+      stdio: "pipe",
+      cwd: repoRoot,
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Restores paths to their state in HEAD, deleting files that didn't exist
+ */
+export function revertPaths(repoRoot: string, changes: ChangedPath[]): void {
+  const paths = changes.flatMap((change) =>
+    change.originalPath ? [change.path, change.originalPath] : [change.path],
+  );
+  for (const path of paths) {
+    // Unstage first in case the assistant ran git add itself
+    execFileSync("git", ["reset", "-q", "--", path], {
+      stdio: "pipe",
+      cwd: repoRoot,
+    });
+    if (existsInHead(repoRoot, path)) {
+      execFileSync("git", ["checkout", "HEAD", "--", path], {
+        stdio: "pipe",
+        cwd: repoRoot,
+      });
+    } else {
+      rmSync(join(repoRoot, path), { force: true, recursive: true });
+    }
+  }
+}
+
+export type SizeLimitAction = "fail" | "draft" | "patch";
+
+const SIZE_LIMIT_ACTIONS: SizeLimitAction[] = ["fail", "draft", "patch"];
+
+// When several limits are exceeded, the most severe action wins
+const SIZE_LIMIT_SEVERITY: Record<SizeLimitAction, number> = {
+  draft: 1,
+  patch: 2,
+  fail: 3,
+};
+
+export interface ChangeSize {
+  files: number;
+  /** Added plus deleted lines; binary files count as zero */
+  lines: number;
+  deletedFiles: number;
+}
+
+export interface SizeLimit {
+  /** Input name, used in messages */
+  name: string;
+  metric: keyof ChangeSize;
+  max: number;
+  action: SizeLimitAction;
+}
+
+export interface SizeLimitResult {
+  action: SizeLimitAction | null;
+  violations: string[];
+}
+
+/**
+ * Parses a size limit such as "50" or "50:fail". Empty input means no limit.
+ */
+export function parseSizeLimit(
+  name: string,
+  metric: keyof ChangeSize,
+  input: string | undefined,
+  defaultAction: SizeLimitAction,
+): SizeLimit | null {
+  const value = (input || "").trim();
+  if (!value) {
+    return null;
+  }
+  const match = value.match(/^(\d+)\s*(?::\s*(\w+))?$/);
+  const action = (match?.[2] || defaultAction) as SizeLimitAction;
+  if (!match || !SIZE_LIMIT_ACTIONS.includes(action)) {
+    throw new Error(
+      `Invalid ${name}: "${input}". Expected a number, optionally followed by ":${SIZE_LIMIT_ACTIONS.join("|")}"`,
+    );
+  }
+  return { name, metric, max: parseInt(match[1] || "0", 10), action };
+}
+
+export function parseSizeLimitAction(
+  input: string | undefined,
+): SizeLimitAction {
+  const action = (input || "draft").trim() as SizeLimitAction;
+  if (!SIZE_LIMIT_ACTIONS.includes(action)) {
+    throw new Error(
+      `Invalid size_limit_action: ${input}. Expected ${SIZE_LIMIT_ACTIONS.map((a) => `'${a}'`).join(", ")}`,
+    );
+  }
+  return action;
+}
+
+/**
+ * Measures the staged changes against the commit the branch started from
+ */
+export function measureStagedChanges(
+  repoRoot: string,
+  baseSha: string,
+): ChangeSize {
+  const git = (args: string[]) =>
+    execFileSync("git", args, { encoding: "utf-8", cwd: repoRoot });
+  const numstat = git(["diff", "--cached", "--numstat", "-z", baseSha]);
+  const size: ChangeSize = { files: 0, lines: 0, deletedFiles: 0 };
+  const entries = numstat.split("\0");
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry) {
+      continue;
+    }
+    const [added = "-", deleted = "-", path = ""] = entry.split("\t");
+    // Renames leave the path empty and are followed by the old and new path
+    if (!path) {
+      i += 2;
+    }
+    size.files++;
+    size.lines +=
+      (added === "-" ? 0 : parseInt(added, 10)) +
+      (deleted === "-" ? 0 : parseInt(deleted, 10));
+  }
+  size.deletedFiles = git([
+    "diff",
+    "--cached",
+    "--name-only",
+    "--diff-filter=D",
+    "-z",
+    baseSha,
+  ])
+    .split("\0")
+    .filter((path) => path.length > 0).length;
+  return size;
+}
+
+/**
+ * Checks a change size against the limits and returns the action to take
+ */
+export function checkSizeLimits(
+  size: ChangeSize,
+  limits: SizeLimit[],
+): SizeLimitResult {
+  const result: SizeLimitResult = { action: null, violations: [] };
+  for (const limit of limits) {
+    const value = size[limit.metric];
+    if (value <= limit.max) {
+      continue;
+    }
+    result.violations.push(`${limit.name}: ${value} > ${limit.max}`);
+    if (
+      !result.action ||
+      SIZE_LIMIT_SEVERITY[limit.action] > SIZE_LIMIT_SEVERITY[result.action]
+    ) {
+      result.action = limit.action;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import { parseCommand } from "./parse-command.ts";
+
+const ALLOWED = ["provider", "enable_plan", "base_branch"];
+
+describe("parseCommand", () => {
+  test("ignores comments without the command", () => {
+    expect(parseCommand("Looks good to me", "/ai", ALLOWED)).toBeNull();
+    expect(parseCommand("see /aim", "/ai", ALLOWED)).toBeNull();
+  });
+
+  test("splits flags from the free-text instructions", () => {
+    expect(
+      parseCommand(
+        "Thanks!\n/ai update the docs --provider codex --plan\nand the changelog --base=release/1.2",
+        "/ai",
+        ALLOWED,
+      ),
+    ).toEqual({
+      action: "run",
+      instructions: "update the docs\nand the changelog",
+      overrides: {
+        provider: "codex",
+        enable_plan: "true",
+        base_branch: "release/1.2",
+      },
+    });
+  });
+
+  test("reads quoted values and underscore flag names", () => {
+    expect(
+      parseCommand('/ai --no_plan --provider "claude"', "/ai", ALLOWED),
+    ).toEqual({
+      action: "run",
+      instructions: "",
+      overrides: { enable_plan: "false", provider: "claude" },
+    });
+  });
+
+  test("recognizes subcommands", () => {
+    expect(parseCommand("/ai approve", "/ai", ALLOWED)?.action).toBe("approve");
+    expect(parseCommand("/bot Revise split step 2", "/bot", ALLOWED)).toEqual({
+      action: "revise",
+      instructions: "split step 2",
+      overrides: {},
+    });
+  });
+
+  test("rejects unknown, disallowed and invalid options", () => {
+    expect(() => parseCommand("/ai --model x", "/ai", ALLOWED)).toThrow(
+      'Unknown option "--model"',
+    );
+    expect(() =>
+      parseCommand("/ai --branch-prefix bot/", "/ai", ALLOWED),
+    ).toThrow('would override "branch_prefix", which is not in the allowlist');
+    expect(() => parseCommand("/ai --provider", "/ai", ALLOWED)).toThrow(
+      'Option "--provider" requires a value',
+    );
+    expect(() => parseCommand("/ai --plan=yes", "/ai", ALLOWED)).toThrow(
+      'Option "--plan" does not take a value',
+    );
+    expect(() => parseCommand("/ai --provider gpt", "/ai", ALLOWED)).toThrow(
+      'Invalid provider "gpt"',
+    );
+    expect(() => parseCommand("/ai --base 'a b'", "/ai", ALLOWED)).toThrow(
+      'Invalid base branch "a b"',
+    );
+  });
+});
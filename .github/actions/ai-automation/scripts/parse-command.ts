@@ -0,0 +1,336 @@
+#!/usr/bin/env bun
+
+/**
+ * Parses a slash command from the triggering comment, e.g.
+ *   /ai update the docs for the new flag --provider codex --plan --base release/1.2
+ * Free text becomes the comment instructions; flags override action inputs
+ * that are on the allowlist. "/ai approve" and "/ai revise <feedback>" act
+ * on a plan awaiting approval. Acknowledges the command on the comment and
+ * reports parse errors back on the PR or issue.
+ */
+
+import * as core from "@actions/core";
+import { Octokit } from "@octokit/rest";
+import { existsSync, readFileSync } from "fs";
+import { getApiUrl, parseList, parseRepository } from "./utils.ts";
+import { PROVIDER_NAMES } from "./providers.ts";
+
+interface FlagSpec {
+  /** Action input the flag overrides */
+  input: string;
+  /** Environment variable holding the current input value */
+  env: string;
+  /** Fixed value for boolean flags; value flags read the next token */
+  value?: string;
+  validate?: (value: string) => string | null;
+}
+
+// Flags accepted in commands, keyed by flag name
+const FLAGS: Record<string, FlagSpec> = {
+  provider: {
+    input: "provider",
+    env: "INPUT_PROVIDER",
+    validate: (value) =>
+      PROVIDER_NAMES.includes(value)
+        ? null
+        : `Invalid provider "${value}". Expected ${PROVIDER_NAMES.map((name) => `"${name}"`).join(", ")}`,
+  },
+  plan: { input: "enable_plan", env: "INPUT_ENABLE_PLAN", value: "true" },
+  "no-plan": { input: "enable_plan", env: "INPUT_ENABLE_PLAN", value: "false" },
+  base: {
+    input: "base_branch",
+    env: "INPUT_BASE_BRANCH",
+    validate: (value) =>
+      /^[\w./-]+$/.test(value) ? null : `Invalid base branch "${value}"`,
+  },
+  "branch-prefix": {
+    input: "branch_prefix",
+    env: "INPUT_BRANCH_PREFIX",
+    validate: (value) =>
+      /^[\w./-]*$/.test(value) ? null : `Invalid branch prefix "${value}"`,
+  },
+};
+
+// Subcommands recognized as the first word after the prefix
+const ACTIONS = ["approve", "revise"] as const;
+
+type CommandAction = "run" | (typeof ACTIONS)[number];
+
+interface ParsedCommand {
+  action: CommandAction;
+  instructions: string;
+  overrides: Record<string, string>;
+}
+
+interface CommentEvent {
+  comment?: {
+    id: number;
+    body?: string;
+    user?: { login: string };
+  };
+  issue?: { number: number };
+  pull_request?: { number: number };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Splits command text into whitespace-separated tokens, keeping the
+ * original text of each token so free text can be reassembled as written
+ */
+function tokenize(
+  text: string,
+): Array<{ value: string; start: number; end: number }> {
+  const tokens: Array<{ value: string; start: number; end: number }> = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    tokens.push({
+      value: match[1] ?? match[2] ?? match[3] ?? "",
+      start,
+      end: start + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Parses the command from a comment body. Returns null when the comment
+ * does not contain the command.
+ */
+export function parseCommand(
+  body: string,
+  prefix: string,
+  allowedInputs: string[],
+): ParsedCommand | null {
+  const match = body.match(
+    new RegExp(`(?:^|\\s)${escapeRegExp(prefix)}(?=\\s|$)`),
+  );
+  if (!match) {
+    return null;
+  }
+
+  const text = body.slice((match.index ?? 0) + match[0].length);
+  const tokens = tokenize(text);
+  const overrides: Record<string, string> = {};
+  const removed: Array<[number, number]> = [];
+
+  let action: CommandAction = "run";
+  const first = tokens[0];
+  const subcommand = ACTIONS.find(
+    (name) => name === first?.value.toLowerCase(),
+  );
+  if (first && subcommand) {
+    action = subcommand;
+    removed.push([first.start, first.end]);
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (!token || !token.value.startsWith("--") || token.value === "--") {
+      continue;
+    }
+
+    const [rawName = "", inlineValue] = token.value.slice(2).split(/=(.*)/s);
+    const name = rawName.replace(/_/g, "-");
+    const flag = FLAGS[name];
+    if (!flag) {
+      throw new Error(
+        `Unknown option "--${rawName}". Supported options: ${Object.keys(FLAGS)
+          .map((flagName) => `--${flagName}`)
+          .join(", ")}`,
+      );
+    }
+    if (!allowedInputs.includes(flag.input)) {
+      throw new Error(
+        `Option "--${rawName}" is not allowed. It would override "${flag.input}", which is not in the allowlist (${allowedInputs.join(", ") || "empty"})`,
+      );
+    }
+
+    let value = flag.value;
+    let end = token.end;
+    if (value === undefined) {
+      value = inlineValue;
+      if (value === undefined) {
+        const next = tokens[i + 1];
+        if (!next || next.value.startsWith("--")) {
+          throw new Error(`Option "--${rawName}" requires a value`);
+        }
+        value = next.value;
+        end = next.end;
+        i++;
+      }
+    } else if (inlineValue !== undefined) {
+      throw new Error(`Option "--${rawName}" does not take a value`);
+    }
+
+    const error = flag.validate?.(value);
+    if (error) {
+      throw new Error(error);
+    }
+    overrides[flag.input] = value;
+    removed.push([token.start, end]);
+  }
+
+  // Free text is everything that isn't a flag, with whitespace preserved
+  let instructions = "";
+  let cursor = 0;
+  for (const [start, end] of removed) {
+    instructions += text.slice(cursor, start);
+    cursor = end;
+  }
+  instructions += text.slice(cursor);
+
+  return {
+    action,
+    instructions: instructions.replace(/[ \t]+$/gm, "").trim(),
+    overrides,
+  };
+}
+
+function readEvent(): CommentEvent {
+  const eventPath = process.env.GITHUB_EVENT_PATH;
+  if (!eventPath || !existsSync(eventPath)) {
+    return {};
+  }
+  return JSON.parse(readFileSync(eventPath, "utf-8")) as CommentEvent;
+}
+
+/**
+ * Sets the effective value of every overridable input
+ */
+function setEffectiveInputs(overrides: Record<string, string>) {
+  const inputs = new Map<string, string>();
+  for (const flag of Object.values(FLAGS)) {
+    inputs.set(flag.input, process.env[flag.env] || "");
+  }
+  for (const [input, value] of Object.entries(overrides)) {
+    inputs.set(input, value);
+  }
+  for (const [input, value] of inputs) {
+    core.setOutput(input, value);
+  }
+}
+
+async function acknowledge(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  event: CommentEvent,
+  mode: string,
+  message: string,
+  success: boolean,
+) {
+  const comment = event.comment;
+  const issueNumber = event.issue?.number ?? event.pull_request?.number;
+  if (!comment || mode === "none") {
+    return;
+  }
+  try {
+    const reaction = success ? "eyes" : "confused";
+    if (event.pull_request && !event.issue) {
+      await octokit.rest.reactions.createForPullRequestReviewComment({
+        owner,
+        repo,
+        comment_id: comment.id,
+        content: reaction,
+      });
+    } else {
+      await octokit.rest.reactions.createForIssueComment({
+        owner,
+        repo,
+        comment_id: comment.id,
+        content: reaction,
+      });
+    }
+    // Errors are always reported as a reply; successes only in comment mode
+    if (issueNumber && (!success || mode === "comment")) {
+      const author = comment.user ? `@${comment.user.login} ` : "";
+      await octokit.rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        body: `${author}${message}`,
+      });
+    }
+  } catch (error) {
+    console.warn(
+      `Failed to acknowledge command: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+async function main() {
+  try {
+    const prefix = process.env.COMMAND_PREFIX || "/ai";
+    const allowedInputs = parseList(process.env.COMMAND_ALLOWED_OVERRIDES);
+    const ackMode = process.env.COMMAND_ACKNOWLEDGE || "reaction";
+
+    const event = readEvent();
+    const body = event.comment?.body || "";
+
+    // Acknowledging needs API access; without it the command is only parsed
+    const githubToken = process.env.GITHUB_TOKEN;
+    const repository = process.env.GITHUB_REPOSITORY || "";
+    const reply = async (message: string, success: boolean) => {
+      if (!githubToken || !repository) {
+        return;
+      }
+      const { owner, repo } = parseRepository(repository);
+      const octokit = new Octokit({ auth: githubToken, baseUrl: getApiUrl() });
+      await acknowledge(octokit, owner, repo, event, ackMode, message, success);
+    };
+
+    let parsed: ParsedCommand | null;
+    try {
+      parsed = parseCommand(body, prefix, allowedInputs);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      await reply(
+        `could not parse \`${prefix}\` command: ${errorMessage}`,
+        false,
+      );
+      throw error;
+    }
+
+    if (!parsed) {
+      if (event.comment) {
+        console.log(`Comment does not contain the ${prefix} command`);
+      }
+      core.setOutput("found", "false");
+      core.setOutput("action", "run");
+      core.setOutput("instructions", "");
+      setEffectiveInputs({});
+      return;
+    }
+
+    console.log(`Parsed ${prefix} command (${parsed.action})`);
+    for (const [input, value] of Object.entries(parsed.overrides)) {
+      console.log(`  ${input} = ${value}`);
+    }
+    core.setOutput("found", "true");
+    core.setOutput("action", parsed.action);
+    core.setOutput("author", event.comment?.user?.login || "");
+    core.setOutput("instructions", parsed.instructions);
+    setEffectiveInputs(parsed.overrides);
+
+    const overrides = Object.entries(parsed.overrides)
+      .map(([input, value]) => `\`${input}=${value}\``)
+      .join(", ");
+    await reply(
+      `running \`${prefix}\`${overrides ? ` with ${overrides}` : ""}.`,
+      true,
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    core.setFailed(`Failed to parse command: ${errorMessage}`);
+    process.exit(1);
+  }
+}
+
+if (import.meta.main) {
+  main();
+}
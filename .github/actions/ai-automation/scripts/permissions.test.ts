@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test";
+import type { Octokit } from "@octokit/rest";
+import { getPermissionLevel, hasPermission } from "./permissions.ts";
+
+const ROLES: Record<string, { permission: string; role_name: string }> = {
+  maintainer: { permission: "write", role_name: "maintain" },
+  triager: { permission: "read", role_name: "triage" },
+  // Custom roles report their own name and the built-in level they extend
+  auditor: { permission: "read", role_name: "security-auditor" },
+};
+
+const octokit = {
+  rest: {
+    repos: {
+      getCollaboratorPermissionLevel: async ({
+        username,
+      }: {
+        username: string;
+      }) => {
+        const data = ROLES[username];
+        if (username === "broken") {
+          throw Object.assign(new Error("Server Error"), { status: 500 });
+        }
+        if (!data) {
+          throw Object.assign(new Error("Not Found"), { status: 404 });
+        }
+        return { data };
+      },
+    },
+  },
+} as unknown as Octokit;
+
+describe("getPermissionLevel", () => {
+  test("prefers the role name over the folded permission", async () => {
+    expect(await getPermissionLevel(octokit, "acme", "w", "maintainer")).toBe(
+      "maintain",
+    );
+    expect(await getPermissionLevel(octokit, "acme", "w", "triager")).toBe(
+      "triage",
+    );
+    expect(await getPermissionLevel(octokit, "acme", "w", "auditor")).toBe(
+      "read",
+    );
+  });
+
+  test("treats unknown users as having no access", async () => {
+    expect(await getPermissionLevel(octokit, "acme", "w", "stranger")).toBe(
+      "none",
+    );
+    await expect(
+      getPermissionLevel(octokit, "acme", "w", "broken"),
+    ).rejects.toThrow("Server Error");
+  });
+});
+
+describe("hasPermission", () => {
+  test("compares against the minimum level", async () => {
+    expect(
+      await hasPermission(octokit, "acme", "w", "maintainer", "write"),
+    ).toBe(true);
+    expect(await hasPermission(octokit, "acme", "w", "triager", "write")).toBe(
+      false,
+    );
+    expect(await hasPermission(octokit, "acme", "w", "triager", "read")).toBe(
+      true,
+    );
+    expect(await hasPermission(octokit, "acme", "w", "stranger", "read")).toBe(
+      false,
+    );
+  });
+
+  test("rejects unknown levels", async () => {
+    await expect(
+      hasPermission(octokit, "acme", "w", "maintainer", "owner"),
+    ).rejects.toThrow("Invalid permission level: owner");
+  });
+});
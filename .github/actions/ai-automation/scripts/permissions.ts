@@ -0,0 +1,66 @@
+#!/usr/bin/env bun
+
+/**
+ * Repository permission checks for users who trigger or approve AI runs
+ */
+
+import { Octokit } from "@octokit/rest";
+import { getErrorStatus } from "./utils.ts";
+
+// Permission levels from lowest to highest
+export const PERMISSION_LEVELS = [
+  "none",
+  "read",
+  "triage",
+  "write",
+  "maintain",
+  "admin",
+];
+
+/**
+ * Gets a user's permission on the repository, including custom roles that
+ * extend one of the built-in levels
+ */
+export async function getPermissionLevel(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  username: string,
+): Promise<string> {
+  try {
+    const { data } = await octokit.rest.repos.getCollaboratorPermissionLevel({
+      owner,
+      repo,
+      username,
+    });
+    // role_name distinguishes triage and maintain, which permission folds
+    // into read and write
+    const role = data.role_name;
+    return PERMISSION_LEVELS.includes(role) ? role : data.permission;
+  } catch (error) {
+    if (getErrorStatus(error) === 404) {
+      return "none";
+    }
+    throw error;
+  }
+}
+
+/**
+ * Checks whether a user has at least the given permission on the repository
+ */
+export async function hasPermission(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  username: string,
+  minimum: string,
+): Promise<boolean> {
+  const required = PERMISSION_LEVELS.indexOf(minimum);
+  if (required === -1) {
+    throw new Error(
+      `Invalid permission level: ${minimum}. Expected one of ${PERMISSION_LEVELS.join(", ")}`,
+    );
+  }
+  const level = await getPermissionLevel(octokit, owner, repo, username);
+  return PERMISSION_LEVELS.indexOf(level) >= required;
+}
@@ -0,0 +1,213 @@
+import { afterAll, afterEach, describe, expect, test } from "bun:test";
+import type { Octokit } from "@octokit/rest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { formatCommentMarker } from "./comments.ts";
+import { check, post, type GateContext } from "./plan-approval.ts";
+
+const PERMISSIONS: Record<string, string> = {
+  alice: "write",
+  bob: "read",
+};
+
+interface Comment {
+  id: number;
+  body: string;
+  html_url: string;
+  user: { login: string };
+}
+
+/**
+ * Octokit stand-in for an issue with comments, +1 reactions on them, and
+ * repository permissions from PERMISSIONS
+ */
+function mockOctokit(reactions: string[] = []) {
+  const comments: Comment[] = [];
+  const save = (id: number, body: string) => {
+    const saved = {
+      id,
+      body,
+      html_url: `https://github.com/acme/widgets/issues/7#issuecomment-${id}`,
+      user: { login: "ai-bot" },
+    };
+    const index = comments.findIndex((existing) => existing.id === id);
+    if (index === -1) {
+      comments.push(saved);
+    } else {
+      comments[index] = saved;
+    }
+    return { data: saved };
+  };
+  const octokit = {
+    paginate: async (method: unknown) =>
+      method === octokit.rest.issues.listComments
+        ? comments
+        : reactions.map((login) => ({ user: { login } })),
+    rest: {
+      issues: {
+        listComments: {},
+        createComment: async ({ body }: { body: string }) =>
+          save(comments.length + 1, body),
+        updateComment: async (params: { comment_id: number; body: string }) =>
+          save(params.comment_id, params.body),
+      },
+      reactions: { listForIssueComment: {} },
+      users: {
+        getAuthenticated: async () => ({ data: { login: "ai-bot" } }),
+      },
+      repos: {
+        getCollaboratorPermissionLevel: async (params: {
+          username: string;
+        }) => {
+          const permission = PERMISSIONS[params.username];
+          if (!permission) {
+            throw Object.assign(new Error("Not Found"), { status: 404 });
+          }
+          return { data: { permission, role_name: permission } };
+        },
+      },
+    },
+  };
+  return { octokit: octokit as unknown as Octokit, comments };
+}
+
+const outputDir = mkdtempSync(join(tmpdir(), "plan-approval-test-"));
+const outputFile = join(outputDir, "output");
+const savedEnv = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...savedEnv };
+});
+
+afterAll(() => {
+  rmSync(outputDir, { recursive: true, force: true });
+});
+
+/**
+ * Runs a gate step with the given environment and returns the step outputs
+ */
+async function run(
+  step: (context: GateContext) => Promise<void>,
+  octokit: Octokit,
+  env: Record<string, string>,
+): Promise<Record<string, string>> {
+  writeFileSync(outputFile, "");
+  process.env = { ...savedEnv, GITHUB_OUTPUT: outputFile, ...env };
+  await step({
+    octokit,
+    owner: "acme",
+    repo: "widgets",
+    issueNumber: 7,
+    marker: formatCommentMarker("plan", "default"),
+    prefix: "/ai",
+  });
+  const outputs: Record<string, string> = {};
+  const content = readFileSync(outputFile, "utf-8");
+  for (const match of content.matchAll(/^(\w+)<<(\S+)\n([\s\S]*?)\n\2$/gm)) {
+    outputs[match[1] ?? ""] = match[3] ?? "";
+  }
+  return outputs;
+}
+
+const APPROVAL = { PLAN_APPROVAL: "true", COMMAND_FOUND: "true" };
+
+async function withPendingPlan(reactions: string[] = []) {
+  const mock = mockOctokit(reactions);
+  await run(post, mock.octokit, { PLAN: "1. Update the docs" });
+  return mock;
+}
+
+describe("plan approval", () => {
+  test("posts the plan for approval", async () => {
+    const { octokit, comments } = mockOctokit();
+    const outputs = await run(post, octokit, { PLAN: "1. Update the docs\n" });
+    expect(outputs).toEqual({
+      awaiting_approval: "true",
+      plan_comment_url: comments[0]?.html_url ?? "",
+    });
+    expect(comments[0]?.body).toContain("### AI plan: awaiting approval");
+  });
+
+  test("approves the plan for a user with write permission", async () => {
+    const { octokit, comments } = await withPendingPlan();
+    const outputs = await run(check, octokit, {
+      ...APPROVAL,
+      COMMAND_ACTION: "approve",
+      COMMAND_AUTHOR: "alice",
+    });
+    expect(outputs).toEqual({
+      approved: "true",
+      plan: "1. Update the docs",
+      run_plan: "false",
+    });
+    expect(comments[0]?.body).toContain("Approved by @alice.");
+  });
+
+  test("refuses approval from a user with read permission", async () => {
+    const { octokit, comments } = await withPendingPlan();
+    await expect(
+      run(check, octokit, {
+        ...APPROVAL,
+        COMMAND_ACTION: "approve",
+        COMMAND_AUTHOR: "bob",
+      }),
+    ).rejects.toThrow("@bob needs write permission");
+    expect(comments[0]?.body).toContain("awaiting approval");
+  });
+
+  test("only counts +1 reactions from users with write permission", async () => {
+    const unauthorized = await withPendingPlan(["bob", "mallory"]);
+    expect(
+      await run(check, unauthorized.octokit, { PLAN_APPROVAL: "true" }),
+    ).toEqual({
+      approved: "false",
+      run_plan: "false",
+      awaiting_approval: "true",
+      plan_comment_url: unauthorized.comments[0]?.html_url ?? "",
+    });
+
+    const authorized = await withPendingPlan(["bob", "alice"]);
+    const outputs = await run(check, authorized.octokit, {
+      PLAN_APPROVAL: "true",
+    });
+    expect(outputs.approved).toBe("true");
+    expect(authorized.comments[0]?.body).toContain("Approved by @alice.");
+  });
+
+  test("regenerates the plan with revise feedback", async () => {
+    const { octokit } = await withPendingPlan();
+    const revise = {
+      ...APPROVAL,
+      COMMAND_ACTION: "revise",
+      COMMAND_AUTHOR: "alice",
+      COMMAND_INSTRUCTIONS: "split step 1",
+    };
+    expect(await run(check, octokit, revise)).toEqual({
+      approved: "false",
+      run_plan: "true",
+      feedback: "split step 1",
+      previous_plan: "1. Update the docs",
+    });
+
+    await expect(
+      run(check, octokit, { ...revise, COMMAND_INSTRUCTIONS: " " }),
+    ).rejects.toThrow("`/ai revise` requires feedback");
+    await expect(
+      run(check, octokit, { ...revise, COMMAND_AUTHOR: "bob" }),
+    ).rejects.toThrow("@bob needs write permission");
+  });
+
+  test("ignores a plan comment forged by another user", async () => {
+    const { octokit, comments } = await withPendingPlan();
+    const forged = { ...(comments[0] as Comment), user: { login: "mallory" } };
+    comments.splice(0, 1, forged);
+    await expect(
+      run(check, octokit, {
+        ...APPROVAL,
+        COMMAND_ACTION: "approve",
+        COMMAND_AUTHOR: "alice",
+      }),
+    ).rejects.toThrow("There is no plan awaiting approval");
+  });
+});
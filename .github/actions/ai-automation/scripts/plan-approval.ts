@@ -0,0 +1,293 @@
+#!/usr/bin/env bun
+
+/**
+ * Human approval gate between the plan and implementation phases.
+ *
+ * The plan is stored in a comment on the source PR or issue, found by a
+ * hidden marker, and the run stops. A later run resumes with the stored plan
+ * once it is approved with "/ai approve" or a +1 reaction from a user with
+ * write permission; "/ai revise <feedback>" regenerates the plan instead.
+ *
+ * PLAN_APPROVAL_STEP selects what this script does:
+ *   check - decides whether to run the plan phase or use an approved plan
+ *           (without plan_approval, the plan phase runs if enable_plan is set)
+ *   post  - stores the new plan in the plan comment and awaits approval
+ */
+
+import * as core from "@actions/core";
+import { Octokit } from "@octokit/rest";
+import {
+  findMarkedComment,
+  formatCommentMarker,
+  upsertMarkedComment,
+  type MarkedComment,
+} from "./comments.ts";
+import { hasPermission } from "./permissions.ts";
+import { getApiUrl, parseRepository } from "./utils.ts";
+
+const PLAN_DATA = /<!-- github-ai-actions:plan-data=([A-Za-z0-9+/=]+) -->/;
+
+// Approving or revising a plan requires write access to the repository
+const APPROVER_PERMISSION = "write";
+
+interface StoredPlan {
+  state: "pending" | "approved";
+  plan: string;
+  approvedBy?: string;
+}
+
+export interface GateContext {
+  octokit: Octokit;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  marker: string;
+  prefix: string;
+}
+
+function parseStoredPlan(comment: MarkedComment): StoredPlan | null {
+  const data = comment.body.match(PLAN_DATA)?.[1];
+  if (!data) {
+    return null;
+  }
+  try {
+    return JSON.parse(Buffer.from(data, "base64").toString("utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+function formatPlanComment(stored: StoredPlan, prefix: string): string {
+  const data = Buffer.from(JSON.stringify(stored)).toString("base64");
+  const footer =
+    stored.state === "approved"
+      ? `Approved by @${stored.approvedBy}. Implementation is running.`
+      : `Comment \`${prefix} approve\` to implement this plan, or \`${prefix} revise <feedback>\` to regenerate it. A 👍 reaction on this comment from someone with write access also approves it on the next run.`;
+  return [
+    `### AI plan: ${stored.state === "approved" ? "approved" : "awaiting approval"}`,
+    "",
+    stored.plan,
+    "",
+    "---",
+    "",
+    footer,
+    `<!-- github-ai-actions:plan-data=${data} -->`,
+  ].join("\n");
+}
+
+async function loadPlan(
+  context: GateContext,
+): Promise<{ comment: MarkedComment; stored: StoredPlan } | null> {
+  const comment = await findMarkedComment(
+    context.octokit,
+    context.owner,
+    context.repo,
+    context.issueNumber,
+    context.marker,
+  );
+  const stored = comment ? parseStoredPlan(comment) : null;
+  return comment && stored ? { comment, stored } : null;
+}
+
+async function savePlan(
+  context: GateContext,
+  stored: StoredPlan,
+): Promise<MarkedComment> {
+  return upsertMarkedComment(
+    context.octokit,
+    context.owner,
+    context.repo,
+    context.issueNumber,
+    context.marker,
+    formatPlanComment(stored, context.prefix),
+  );
+}
+
+/**
+ * Finds a user with write permission who reacted with +1 to the plan comment
+ */
+async function findReactionApprover(
+  context: GateContext,
+  commentId: number,
+): Promise<string | null> {
+  const reactions = await context.octokit.paginate(
+    context.octokit.rest.reactions.listForIssueComment,
+    {
+      owner: context.owner,
+      repo: context.repo,
+      comment_id: commentId,
+      content: "+1",
+      per_page: 100,
+    },
+  );
+  for (const reaction of reactions) {
+    const login = reaction.user?.login;
+    if (
+      login &&
+      (await hasPermission(
+        context.octokit,
+        context.owner,
+        context.repo,
+        login,
+        APPROVER_PERMISSION,
+      ))
+    ) {
+      return login;
+    }
+  }
+  return null;
+}
+
+async function requireApprover(context: GateContext, login: string) {
+  if (
+    !login ||
+    !(await hasPermission(
+      context.octokit,
+      context.owner,
+      context.repo,
+      login,
+      APPROVER_PERMISSION,
+    ))
+  ) {
+    throw new Error(
+      `@${login || "unknown"} needs ${APPROVER_PERMISSION} permission to approve or revise the plan`,
+    );
+  }
+}
+
+async function approve(
+  context: GateContext,
+  stored: StoredPlan,
+  approver: string,
+) {
+  await savePlan(context, {
+    ...stored,
+    state: "approved",
+    approvedBy: approver,
+  });
+  console.log(`Plan approved by @${approver}`);
+  core.setOutput("approved", "true");
+  core.setOutput("plan", stored.plan);
+  core.setOutput("run_plan", "false");
+}
+
+export async function check(context: GateContext) {
+  const action = process.env.COMMAND_ACTION || "run";
+  const author = process.env.COMMAND_AUTHOR || "";
+  if (process.env.PLAN_APPROVAL !== "true") {
+    if (action !== "run") {
+      throw new Error(
+        `\`${context.prefix} ${action}\` requires plan_approval to be enabled`,
+      );
+    }
+    core.setOutput("approved", "false");
+    core.setOutput(
+      "run_plan",
+      process.env.ENABLE_PLAN === "true" ? "true" : "false",
+    );
+    return;
+  }
+
+  const existing = await loadPlan(context);
+  const pending = existing?.stored.state === "pending" ? existing : null;
+
+  if (action === "approve") {
+    await requireApprover(context, author);
+    if (!pending) {
+      throw new Error("There is no plan awaiting approval");
+    }
+    await approve(context, pending.stored, author);
+    return;
+  }
+
+  // Reactions don't trigger workflows, so a run without a command picks up
+  // a pending plan that was approved by reaction in the meantime, and keeps
+  // waiting otherwise
+  if (process.env.COMMAND_FOUND !== "true" && pending) {
+    const approver = await findReactionApprover(context, pending.comment.id);
+    if (approver) {
+      await approve(context, pending.stored, approver);
+    } else {
+      console.log(`Plan still awaiting approval: ${pending.comment.html_url}`);
+      core.setOutput("approved", "false");
+      core.setOutput("run_plan", "false");
+      core.setOutput("awaiting_approval", "true");
+      core.setOutput("plan_comment_url", pending.comment.html_url);
+    }
+    return;
+  }
+
+  core.setOutput("approved", "false");
+  core.setOutput("run_plan", "true");
+
+  if (action === "revise") {
+    await requireApprover(context, author);
+    const feedback = process.env.COMMAND_INSTRUCTIONS || "";
+    if (!feedback.trim()) {
+      throw new Error(`\`${context.prefix} revise\` requires feedback`);
+    }
+    console.log("Regenerating the plan with feedback");
+    core.setOutput("feedback", feedback);
+    core.setOutput("previous_plan", existing?.stored.plan || "");
+  }
+}
+
+export async function post(context: GateContext) {
+  const plan = (process.env.PLAN || "").trim();
+  if (!plan) {
+    throw new Error("The plan phase produced an empty plan");
+  }
+  const comment = await savePlan(context, { state: "pending", plan });
+  console.log(`Plan awaiting approval: ${comment.html_url}`);
+  core.setOutput("awaiting_approval", "true");
+  core.setOutput("plan_comment_url", comment.html_url);
+}
+
+async function main() {
+  try {
+    const githubToken = process.env.GITHUB_TOKEN;
+    if (!githubToken) {
+      throw new Error("GITHUB_TOKEN environment variable is required");
+    }
+    const { owner, repo } = parseRepository(process.env.REPOSITORY || "");
+    const issueNumber = parseInt(
+      (process.env.SOURCE_TYPE === "issue"
+        ? process.env.ISSUE_NUMBER
+        : process.env.PR_NUMBER) || "",
+      10,
+    );
+    // Batch runs have no single PR or issue to hold the plan comment
+    if (isNaN(issueNumber) && process.env.PLAN_APPROVAL === "true") {
+      throw new Error("A source PR or issue is required for plan approval");
+    }
+
+    const context: GateContext = {
+      octokit: new Octokit({ auth: githubToken, baseUrl: getApiUrl() }),
+      owner,
+      repo,
+      issueNumber,
+      marker: formatCommentMarker(
+        "plan",
+        process.env.PLAN_KEY || process.env.GITHUB_WORKFLOW || "default",
+      ),
+      prefix: process.env.COMMAND_PREFIX || "/ai",
+    };
+
+    const step = process.env.PLAN_APPROVAL_STEP;
+    if (step === "check") {
+      await check(context);
+    } else if (step === "post") {
+      await post(context);
+    } else {
+      throw new Error(`Invalid PLAN_APPROVAL_STEP: ${step}`);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    core.setFailed(`Plan approval failed: ${errorMessage}`);
+    process.exit(1);
+  }
+}
+
+if (import.meta.main) {
+  main();
+}
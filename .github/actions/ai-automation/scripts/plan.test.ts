@@ -0,0 +1,131 @@
+import { describe, expect, test } from "bun:test";
+import {
+  checkDeclaredFiles,
+  formatPlanChecklist,
+  parsePlanFormat,
+  parseStructuredPlan,
+  validatePlan,
+} from "./plan.ts";
+
+describe("parsePlanFormat", () => {
+  test("defaults to text and rejects other formats", () => {
+    expect(parsePlanFormat(undefined)).toBe("text");
+    expect(parsePlanFormat(" structured ")).toBe("structured");
+    expect(() => parsePlanFormat("yaml")).toThrow("Invalid plan_format");
+  });
+});
+
+describe("parseStructuredPlan", () => {
+  test("parses JSON, also inside a fence", () => {
+    const json = JSON.stringify({
+      summary: "Add a parser",
+      steps: ["Add the parser", { title: "Wire it up", files: ["src/cli.ts"] }],
+      files: ["src/parser.ts"],
+    });
+    const expected = {
+      summary: "Add a parser",
+      steps: [
+        { title: "Add the parser", description: "", files: [] },
+        { title: "Wire it up", description: "", files: ["src/cli.ts"] },
+      ],
+      files: ["src/parser.ts"],
+      risks: [],
+      testStrategy: "",
+    };
+    expect(parseStructuredPlan(json)).toEqual(expected);
+    expect(parseStructuredPlan("```json\n" + json + "\n```")).toEqual(expected);
+  });
+
+  test("parses Markdown with YAML front matter", () => {
+    const plan = parseStructuredPlan(
+      [
+        "---",
+        "steps:",
+        "  - Add the parser",
+        "  - title: 'Wire it up: CLI'",
+        "    description: Call the parser",
+        "files: [src/parser.ts, src/cli.ts]",
+        "test_strategy: Unit tests # for the parser",
+        "---",
+        "The summary",
+      ].join("\n"),
+    );
+    expect(plan.summary).toBe("The summary");
+    expect(plan.steps[1]).toEqual({
+      title: "Wire it up: CLI",
+      description: "Call the parser",
+      files: [],
+    });
+    expect(plan.files).toEqual(["src/parser.ts", "src/cli.ts"]);
+    expect(plan.testStrategy).toBe("Unit tests");
+  });
+
+  test("reports broken plans", () => {
+    expect(() => parseStructuredPlan("{ steps: [] }")).toThrow(
+      "The plan is not valid JSON",
+    );
+    expect(() => parseStructuredPlan("---\nsteps: [a]\n")).toThrow(
+      'missing its closing "---"',
+    );
+    expect(() => parseStructuredPlan("---\nsteps: [a\n---")).toThrow(
+      "not valid YAML",
+    );
+    expect(() => parseStructuredPlan("---\n- a\n---")).toThrow(
+      "must be a mapping of fields",
+    );
+    expect(() => parseStructuredPlan("Just do it")).toThrow(
+      "must be a JSON object or Markdown with front matter",
+    );
+  });
+});
+
+describe("validatePlan", () => {
+  test("requires steps and known fields", () => {
+    expect(() => validatePlan({ steps: [] })).toThrow(
+      'needs a non-empty "steps" array',
+    );
+    expect(() => validatePlan({ steps: ["a"], owner: "me" })).toThrow(
+      'unknown field(s) "owner"',
+    );
+    expect(() => validatePlan({ steps: [{ files: [] }] })).toThrow(
+      "steps[0].title is required",
+    );
+    expect(() => validatePlan({ steps: ["a"], risks: [""] })).toThrow(
+      "risks[0] must not be empty",
+    );
+    expect(() => validatePlan({ steps: ["a"], summary: 1 })).toThrow(
+      "summary must be a string, got number",
+    );
+  });
+});
+
+describe("checkDeclaredFiles", () => {
+  const plan = validatePlan({
+    steps: [{ title: "Docs", files: ["docs/**"] }],
+    files: ["src/a.ts", "src/b.ts"],
+  });
+
+  test("reports undeclared and untouched files", () => {
+    expect(
+      checkDeclaredFiles(plan, ["src/a.ts", "docs/guide.md", "package.json"]),
+    ).toEqual({ undeclared: ["package.json"], untouched: ["src/b.ts"] });
+  });
+
+  test("skips plans that declare no files", () => {
+    expect(
+      checkDeclaredFiles(validatePlan({ steps: ["a"] }), ["x.ts"]),
+    ).toEqual({ undeclared: [], untouched: [] });
+  });
+});
+
+describe("formatPlanChecklist", () => {
+  test("renders steps as unchecked items with their files", () => {
+    const plan = validatePlan({
+      steps: [{ title: "Add the parser", files: ["src/parser.ts"] }],
+      test_strategy: "Unit tests",
+    });
+    expect(formatPlanChecklist(plan)).toBe(
+      "### Plan\n\n- [ ] Add the parser (`src/parser.ts`)\n\n**Test strategy:** Unit tests",
+    );
+  });
+});
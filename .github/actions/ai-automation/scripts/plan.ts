@@ -0,0 +1,312 @@
+#!/usr/bin/env bun
+
+/**
+ * Structured plans: parsing, validation and rendering.
+ *
+ * A structured plan is either a JSON object or Markdown with front matter:
+ *
+ *   {                                  ---
+ *     "summary": "...",                steps:
+ *     "steps": [                         - Add the parser
+ *       "Add the parser",                - Wire it into the CLI
+ *       { "title": "...",              files:
+ *         "description": "...",          - src/parser.ts
+ *         "files": ["src/cli.ts"] }    risks:
+ *     ],                                 - Breaks custom configs
+ *     "files": ["src/parser.ts"],      test_strategy: Unit tests for the parser
+ *     "risks": ["..."],                ---
+ *     "test_strategy": "..."           Free-form summary of the plan
+ *   }
+ *
+ * Only "steps" is required. Declared files may be globs.
+ */
+
+import { parse as parseYaml } from "yaml";
+import { matchesAnyGlob } from "./utils.ts";
+
+export type PlanFormat = "text" | "structured";
+
+export interface PlanStep {
+  title: string;
+  description: string;
+  files: string[];
+}
+
+export interface StructuredPlan {
+  summary: string;
+  steps: PlanStep[];
+  files: string[];
+  risks: string[];
+  testStrategy: string;
+}
+
+const PLAN_FIELDS = ["summary", "steps", "files", "risks", "test_strategy"];
+const STEP_FIELDS = ["title", "description", "files"];
+
+export const STRUCTURED_PLAN_INSTRUCTIONS = `Write the plan as a JSON object with these fields:
+- "summary" (string, optional): what the change does and why
+- "steps" (array, required): the implementation steps in order. Each step is a string, or an object with "title" (string), "description" (string, optional) and "files" (array of paths, optional)
+- "files" (array of strings, optional): paths or globs of the files you expect to change
+- "risks" (array of strings, optional)
+- "test_strategy" (string, optional): how the change should be verified
+
+Alternatively, write Markdown with the same fields as YAML front matter between "---" lines (steps as a list of strings) and the summary as the body.`;
+
+export function parsePlanFormat(input: string | undefined): PlanFormat {
+  const format = (input || "text").trim();
+  if (format !== "text" && format !== "structured") {
+    throw new Error(
+      `Invalid plan_format: ${input}. Expected 'text' or 'structured'`,
+    );
+  }
+  return format;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkFields(
+  value: Record<string, unknown>,
+  known: string[],
+  where: string,
+) {
+  const unknown = Object.keys(value).filter((key) => !known.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(
+      `${where} has unknown field(s) ${unknown.map((key) => `"${key}"`).join(", ")}. Expected ${known.map((key) => `"${key}"`).join(", ")}`,
+    );
+  }
+}
+
+function readString(value: unknown, where: string): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (typeof value !== "string") {
+    throw new Error(`${where} must be a string, got ${typeof value}`);
+  }
+  return value.trim();
+}
+
+function readStringList(value: unknown, where: string): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new Error(`${where} must be an array of strings`);
+  }
+  return value.map((item, index) => {
+    const text = readString(item, `${where}[${index}]`);
+    if (!text) {
+      throw new Error(`${where}[${index}] must not be empty`);
+    }
+    return text;
+  });
+}
+
+function readStep(value: unknown, index: number): PlanStep {
+  const where = `steps[${index}]`;
+  if (typeof value === "string") {
+    if (!value.trim()) {
+      throw new Error(`${where} must not be empty`);
+    }
+    return { title: value.trim(), description: "", files: [] };
+  }
+  if (!isObject(value)) {
+    throw new Error(`${where} must be a string or an object with a "title"`);
+  }
+  checkFields(value, STEP_FIELDS, where);
+  const title = readString(value.title, `${where}.title`);
+  if (!title) {
+    throw new Error(`${where}.title is required`);
+  }
+  return {
+    title,
+    description: readString(value.description, `${where}.description`),
+    files: readStringList(value.files, `${where}.files`),
+  };
+}
+
+/**
+ * Validates a parsed plan object against the plan schema
+ */
+export function validatePlan(value: unknown): StructuredPlan {
+  if (!isObject(value)) {
+    throw new Error("The plan must be an object");
+  }
+  checkFields(value, PLAN_FIELDS, "The plan");
+  if (!Array.isArray(value.steps) || value.steps.length === 0) {
+    throw new Error('The plan needs a non-empty "steps" array');
+  }
+  return {
+    summary: readString(value.summary, "summary"),
+    steps: value.steps.map(readStep),
+    files: readStringList(value.files, "files"),
+    risks: readStringList(value.risks, "risks"),
+    testStrategy: readString(value.test_strategy, "test_strategy"),
+  };
+}
+
+/**
+ * Parses the YAML front matter of a Markdown plan
+ */
+function parseFrontMatter(source: string): Record<string, unknown> {
+  let value: unknown;
+  try {
+    value = parseYaml(source);
+  } catch (error) {
+    throw new Error(
+      `The plan front matter is not valid YAML: ${(error instanceof Error ? error.message : String(error)).trimEnd()}`,
+    );
+  }
+  // Empty front matter parses as null
+  if (value === null || value === undefined) {
+    return {};
+  }
+  if (!isObject(value)) {
+    throw new Error("The plan front matter must be a mapping of fields");
+  }
+  return value;
+}
+
+/**
+ * Parses and validates a structured plan written as JSON (optionally in a
+ * ```json fence) or as Markdown with front matter
+ */
+export function parseStructuredPlan(text: string): StructuredPlan {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*\n([\s\S]*?)\n```$/);
+  const json = fenced?.[1] ?? (trimmed.startsWith("{") ? trimmed : null);
+  if (json !== null) {
+    let value: unknown;
+    try {
+      value = JSON.parse(json);
+    } catch (error) {
+      throw new Error(
+        `The plan is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    return validatePlan(value);
+  }
+
+  const lines = trimmed.split("\n");
+  if (lines[0]?.trim() === "---") {
+    const end = lines.findIndex(
+      (line, index) => index > 0 && line.trim() === "---",
+    );
+    if (end === -1) {
+      throw new Error('The plan front matter is missing its closing "---"');
+    }
+    const fields = parseFrontMatter(lines.slice(1, end).join("\n"));
+    const body = lines
+      .slice(end + 1)
+      .join("\n")
+      .trim();
+    if (body && fields.summary === undefined) {
+      fields.summary = body;
+    }
+    return validatePlan(fields);
+  }
+
+  throw new Error(
+    "The plan must be a JSON object or Markdown with front matter",
+  );
+}
+
+/**
+ * All files the plan declares, at the top level or on a step
+ */
+export function listDeclaredFiles(plan: StructuredPlan): string[] {
+  return [
+    ...new Set([...plan.files, ...plan.steps.flatMap((step) => step.files)]),
+  ];
+}
+
+/**
+ * Compares the changed paths with the files the plan declares. Plans that
+ * declare no files are not checked.
+ */
+export function checkDeclaredFiles(
+  plan: StructuredPlan,
+  changedPaths: string[],
+): { undeclared: string[]; untouched: string[] } {
+  const declared = listDeclaredFiles(plan);
+  if (declared.length === 0) {
+    return { undeclared: [], untouched: [] };
+  }
+  return {
+    undeclared: changedPaths.filter((path) => !matchesAnyGlob(path, declared)),
+    // Globs can't be "untouched" in a meaningful way, only exact paths
+    untouched: declared.filter(
+      (file) => !/[*?[]/.test(file) && !changedPaths.includes(file),
+    ),
+  };
+}
+
+/**
+ * Renders the steps as sections for the implementation prompt, so the
+ * assistant works through them one at a time
+ */
+export function formatPlanForPrompt(plan: StructuredPlan): string {
+  const sections = plan.steps.map((step, index) => {
+    const lines = [
+      `<step number="${index + 1}" of="${plan.steps.length}">`,
+      step.title,
+    ];
+    if (step.description) {
+      lines.push("", step.description);
+    }
+    if (step.files.length > 0) {
+      lines.push("", `Files: ${step.files.join(", ")}`);
+    }
+    lines.push("</step>");
+    return lines.join("\n");
+  });
+  const parts = [];
+  if (plan.summary) {
+    parts.push(`<summary>\n${plan.summary}\n</summary>`);
+  }
+  parts.push(
+    "Implement the steps below one at a time, in order. Finish each step before starting the next one.",
+    ...sections,
+  );
+  if (plan.files.length > 0) {
+    parts.push(
+      `The plan expects changes to: ${plan.files.join(", ")}. Explain any change outside these files.`,
+    );
+  }
+  if (plan.risks.length > 0) {
+    parts.push(
+      `Risks to keep in mind:\n${plan.risks.map((risk) => `- ${risk}`).join("\n")}`,
+    );
+  }
+  if (plan.testStrategy) {
+    parts.push(`Test strategy: ${plan.testStrategy}`);
+  }
+  return parts.join("\n\n");
+}
+
+/**
+ * Renders the plan as a Markdown checklist for the PR body
+ */
+export function formatPlanChecklist(plan: StructuredPlan): string {
+  const lines = ["### Plan", ""];
+  if (plan.summary) {
+    lines.push(plan.summary, "");
+  }
+  for (const step of plan.steps) {
+    const files =
+      step.files.length > 0
+        ? ` (${step.files.map((file) => `\`${file}\``).join(", ")})`
+        : "";
+    lines.push(`- [ ] ${step.title}${files}`);
+  }
+  if (plan.risks.length > 0) {
+    lines.push("", "**Risks:**", "", ...plan.risks.map((risk) => `- ${risk}`));
+  }
+  if (plan.testStrategy) {
+    lines.push("", `**Test strategy:** ${plan.testStrategy}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,179 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import type { Octokit } from "@octokit/rest";
+import { execFileSync } from "child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { resolvePRDiff, type PRDiffSource } from "./pr-diff.ts";
+
+const root = mkdtempSync(join(tmpdir(), "pr-diff-test-"));
+const origin = join(root, "origin");
+const checkout = join(root, "checkout");
+
+const git = (cwd: string, ...args: string[]) =>
+  execFileSync("git", args, {
+    cwd,
+    encoding: "utf-8",
+    stdio: "pipe",
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: "test",
+      GIT_AUTHOR_EMAIL: "test@example.com",
+      GIT_COMMITTER_NAME: "test",
+      GIT_COMMITTER_EMAIL: "test@example.com",
+    },
+  }).trim();
+
+const commitFile = (path: string, message: string) => {
+  writeFileSync(join(origin, path), `${message}\n`);
+  git(origin, "add", path);
+  git(origin, "commit", "-q", "-m", message);
+  return git(origin, "rev-parse", "HEAD");
+};
+
+// A PR branch with two commits, branched off before the base moved on
+mkdirSync(origin);
+git(origin, "init", "-q");
+git(origin, "checkout", "-q", "-b", "main");
+commitFile("base.txt", "base");
+git(origin, "checkout", "-q", "-b", "feature");
+commitFile("a.txt", "add a");
+const headOid = commitFile("b.txt", "add b");
+git(origin, "checkout", "-q", "main");
+commitFile("later.txt", "later on main");
+
+// The checkout is cloned before the PR lands, so merged commits are fetched
+git(root, "clone", "-q", origin, checkout);
+
+const mergeInto = (branch: string, merge: () => void) => {
+  git(origin, "checkout", "-q", "-b", branch, "main");
+  merge();
+  return git(origin, "rev-parse", "HEAD");
+};
+const mergeOid = mergeInto("merged", () =>
+  git(origin, "merge", "-q", "--no-ff", "-m", "Merge feature", "feature"),
+);
+const squashOid = mergeInto("squashed", () => {
+  git(origin, "merge", "-q", "--squash", "feature");
+  git(origin, "commit", "-q", "-m", "Add a and b (#7)");
+});
+const rebaseOid = mergeInto("rebased", () =>
+  git(origin, "cherry-pick", "feature~1", "feature"),
+);
+
+// Fork PR heads are only reachable through refs/pull/N/head
+git(origin, "checkout", "-q", "--detach", "feature");
+const forkHeadOid = commitFile("fork.txt", "fork change");
+git(origin, "checkout", "-q", "main");
+git(origin, "update-ref", "refs/pull/8/head", forkHeadOid);
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+function source(overrides: Partial<PRDiffSource>): PRDiffSource {
+  return {
+    number: 7,
+    state: "MERGED",
+    baseRefName: "main",
+    headRefOid: headOid,
+    commitCount: 2,
+    commitMessages: ["add a", "add b"],
+    mergeCommit: null,
+    ...overrides,
+  };
+}
+
+const changedFiles = (diff: string) =>
+  [...diff.matchAll(/^diff --git a\/(\S+)/gm)].map((match) => match[1]);
+
+function mockOctokit(diff: unknown) {
+  const requests: unknown[] = [];
+  const octokit = {
+    request: async (options: unknown) => {
+      requests.push(options);
+      return { data: diff };
+    },
+  } as unknown as Octokit;
+  return { octokit, requests };
+}
+
+describe("resolvePRDiff", () => {
+  const { octokit, requests } = mockOctokit("");
+  const resolve = (overrides: Partial<PRDiffSource>) =>
+    resolvePRDiff(octokit, "acme", "widgets", source(overrides), checkout);
+
+  test("diffs a merge commit against its first parent", async () => {
+    const diff = await resolve({
+      baseRefName: "merged",
+      mergeCommit: { oid: mergeOid, parentCount: 2 },
+    });
+    expect(changedFiles(diff)).toEqual(["a.txt", "b.txt"]);
+  });
+
+  test("tells squashed and rebased PRs apart by commit messages", async () => {
+    const squashed = await resolve({
+      baseRefName: "squashed",
+      mergeCommit: { oid: squashOid, parentCount: 1 },
+    });
+    expect(changedFiles(squashed)).toEqual(["a.txt", "b.txt"]);
+
+    const rebased = await resolve({
+      baseRefName: "rebased",
+      mergeCommit: { oid: rebaseOid, parentCount: 1 },
+    });
+    expect(changedFiles(rebased)).toEqual(["a.txt", "b.txt"]);
+  });
+
+  test("uses the merge-base diff for open PRs", async () => {
+    const diff = await resolve({ state: "OPEN", baseRefName: "main" });
+    expect(changedFiles(diff)).toEqual(["a.txt", "b.txt"]);
+  });
+
+  test("fetches fork heads through the pull ref", async () => {
+    const diff = await resolve({
+      number: 8,
+      state: "OPEN",
+      headRefOid: forkHeadOid,
+    });
+    expect(changedFiles(diff)).toEqual(["a.txt", "b.txt", "fork.txt"]);
+    expect(requests).toEqual([]);
+  });
+
+  test("falls back to the API when git can't produce the diff", async () => {
+    const fallback = mockOctokit("diff --git a/x b/x\n");
+    const diff = await resolvePRDiff(
+      fallback.octokit,
+      "acme",
+      "widgets",
+      source({
+        mergeCommit: { oid: "0".repeat(40), parentCount: 2 },
+      }),
+      checkout,
+    );
+    expect(diff).toBe("diff --git a/x b/x\n");
+    expect(fallback.requests).toEqual([
+      {
+        method: "GET",
+        url: "/repos/{owner}/{repo}/pulls/{pull_number}",
+        owner: "acme",
+        repo: "widgets",
+        pull_number: 7,
+        mediaType: { format: "diff" },
+      },
+    ]);
+  });
+
+  test("rejects an API response that isn't a diff", async () => {
+    const { octokit: jsonOctokit } = mockOctokit({ number: 7 });
+    await expect(
+      resolvePRDiff(
+        jsonOctokit,
+        "acme",
+        "widgets",
+        source({ mergeCommit: null }),
+        checkout,
+      ),
+    ).rejects.toThrow("The API did not return a diff for PR #7");
+  });
+});
@@ -0,0 +1,212 @@
+#!/usr/bin/env bun
+
+/**
+ * Resolves the diff a pull request introduced, based on its state:
+ *   - open/closed PRs: merge-base (three-dot) diff between base and head
+ *   - merged PRs: the diff of the merge, squash or rebased commits on base
+ * Falls back to the REST API's diff media type when git can't produce it.
+ */
+
+import { Octokit } from "@octokit/rest";
+import { execFileSync } from "child_process";
+
+// Raw diffs are budgeted after the fact, so allow git to return large output
+const MAX_DIFF_BUFFER = 512 * 1024 * 1024;
+
+export interface PRDiffSource {
+  number: number;
+  state: string;
+  baseRefName: string;
+  headRefOid: string;
+  commitCount: number;
+  commitMessages: string[];
+  mergeCommit: {
+    oid: string;
+    parentCount: number;
+  } | null;
+}
+
+function git(args: string[], cwd: string): string {
+  return execFileSync("git", args, {
+    encoding: "utf-8",
+    cwd,
+    stdio: "pipe",
+    maxBuffer: MAX_DIFF_BUFFER,
+  });
+}
+
+function hasCommit(oid: string, cwd: string): boolean {
+  try {
+    git(["cat-file", "-e", `${oid}^{commit}`], cwd);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Makes sure a commit is available locally, fetching it if needed
+ */
+function ensureCommit(oid: string, refs: string[], cwd: string): void {
+  for (const ref of refs) {
+    if (hasCommit(oid, cwd)) {
+      return;
+    }
+    try {
+      git(["fetch", "--no-tags", "origin", ref], cwd);
+    } catch (error) {
+      console.warn(
+        `Failed to fetch ${ref}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+  if (!hasCommit(oid, cwd)) {
+    throw new Error(`Commit ${oid} is not available locally`);
+  }
+}
+
+/**
+ * Makes sure the PR's head commit is available locally. Fork PR heads are
+ * only reachable through refs/pull/N/head.
+ */
+export function ensureHeadCommit(
+  prNumber: number,
+  headRefOid: string,
+  cwd: string,
+): void {
+  ensureCommit(headRefOid, [`refs/pull/${prNumber}/head`, headRefOid], cwd);
+}
+
+/**
+ * Reads a file as of a commit. Returns null if the path isn't a file in that
+ * commit, e.g. because the commit deleted it.
+ */
+export function readFileAtCommit(
+  commit: string,
+  path: string,
+  cwd: string,
+): string | null {
+  try {
+    if (git(["cat-file", "-t", `${commit}:${path}`], cwd).trim() !== "blob") {
+      return null;
+    }
+    return git(["show", `${commit}:${path}`], cwd);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Finds the commit on the base branch from before the PR was merged.
+ * Merge commits use their first parent. For a single-parent merge commit
+ * the PR was either squashed (one commit) or rebased (one commit per PR
+ * commit), which is told apart by comparing commit messages.
+ */
+function findPreMergeCommit(source: PRDiffSource, cwd: string): string {
+  const merge = source.mergeCommit;
+  if (!merge) {
+    throw new Error(`PR #${source.number} is merged but has no merge commit`);
+  }
+  if (merge.parentCount > 1 || source.commitCount <= 1) {
+    return `${merge.oid}^1`;
+  }
+
+  const count = source.commitCount;
+  try {
+    const messages = git(
+      [
+        "log",
+        "--first-parent",
+        "--format=%B%x00",
+        "-n",
+        String(count),
+        merge.oid,
+      ],
+      cwd,
+    )
+      .split("\0")
+      .map((message) => message.trim())
+      .filter((message) => message.length > 0)
+      .reverse();
+    const expected = source.commitMessages.map((message) => message.trim());
+    const rebased =
+      messages.length === count &&
+      expected.length === count &&
+      messages.every((message, index) => message === expected[index]);
+    if (rebased) {
+      console.log(`PR #${source.number} was rebase-merged (${count} commits)`);
+      return `${merge.oid}~${count}`;
+    }
+  } catch (error) {
+    console.warn(
+      `Failed to inspect merge history: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  return `${merge.oid}^1`;
+}
+
+/**
+ * Computes the PR diff with git in the given repository checkout
+ */
+function resolveGitDiff(source: PRDiffSource, cwd: string): string {
+  if (source.state === "MERGED") {
+    const merge = source.mergeCommit;
+    if (!merge) {
+      throw new Error(`PR #${source.number} is merged but has no merge commit`);
+    }
+    ensureCommit(merge.oid, [source.baseRefName, merge.oid], cwd);
+    const preMerge = findPreMergeCommit(source, cwd);
+    return git(["diff", preMerge, merge.oid], cwd);
+  }
+
+  git(["fetch", "--no-tags", "origin", source.baseRefName], cwd);
+  ensureHeadCommit(source.number, source.headRefOid, cwd);
+  return git(
+    ["diff", `origin/${source.baseRefName}...${source.headRefOid}`],
+    cwd,
+  );
+}
+
+/**
+ * Fetches the PR diff through the REST API's diff media type
+ */
+async function fetchApiDiff(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+): Promise<string> {
+  // The typed pulls.get endpoint describes the JSON response, not the diff
+  const { data }: { data: unknown } = await octokit.request({
+    method: "GET",
+    url: "/repos/{owner}/{repo}/pulls/{pull_number}",
+    owner,
+    repo,
+    pull_number: prNumber,
+    mediaType: { format: "diff" },
+  });
+  if (typeof data !== "string") {
+    throw new Error(`The API did not return a diff for PR #${prNumber}`);
+  }
+  return data;
+}
+
+/**
+ * Resolves the PR diff, trying git first and the REST API second
+ */
+export async function resolvePRDiff(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  source: PRDiffSource,
+  cwd: string,
+): Promise<string> {
+  try {
+    return resolveGitDiff(source, cwd);
+  } catch (error) {
+    console.warn(
+      `Could not compute diff with git, falling back to the API: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  return fetchApiDiff(octokit, owner, repo, source.number);
+}
@@ -0,0 +1,73 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  findCodeowners,
+  parseCodeowners,
+  parseMergeMethod,
+} from "./pr-metadata.ts";
+
+const CODEOWNERS = `# Default owners
+*          @acme/core
+*.md       @octocat docs@example.com  # docs team
+/src/      @acme/backend
+/build
+`;
+
+describe("parseMergeMethod", () => {
+  test("reads the merge method, empty or false disables auto-merge", () => {
+    expect(parseMergeMethod("squash")).toBe("squash");
+    expect(parseMergeMethod("")).toBeNull();
+    expect(parseMergeMethod("false")).toBeNull();
+    expect(() => parseMergeMethod("fast-forward")).toThrow(
+      "Invalid pr_auto_merge",
+    );
+  });
+});
+
+describe("parseCodeowners", () => {
+  test("skips comments and keeps rules without owners", () => {
+    expect(parseCodeowners(CODEOWNERS)).toEqual([
+      { pattern: "*", owners: ["@acme/core"] },
+      { pattern: "*.md", owners: ["@octocat", "docs@example.com"] },
+      { pattern: "/src/", owners: ["@acme/backend"] },
+      { pattern: "/build", owners: [] },
+    ]);
+  });
+});
+
+describe("findCodeowners", () => {
+  const repoRoot = mkdtempSync(join(tmpdir(), "pr-metadata-test-"));
+  mkdirSync(join(repoRoot, ".github"));
+  writeFileSync(join(repoRoot, ".github", "CODEOWNERS"), CODEOWNERS);
+  // .github/CODEOWNERS takes precedence over the root file
+  writeFileSync(join(repoRoot, "CODEOWNERS"), "* @someone-else\n");
+  mkdirSync(join(repoRoot, "empty"));
+
+  afterAll(() => {
+    rmSync(repoRoot, { recursive: true, force: true });
+  });
+
+  test("uses the last matching rule for each path", () => {
+    expect(findCodeowners(repoRoot, ["lib/index.ts"])).toEqual(["@acme/core"]);
+    expect(findCodeowners(repoRoot, ["docs/guide.md"])).toEqual([
+      "@octocat",
+      "docs@example.com",
+    ]);
+    expect(findCodeowners(repoRoot, ["src/notes.md"])).toEqual([
+      "@acme/backend",
+    ]);
+    expect(findCodeowners(repoRoot, ["build/release.sh", "build"])).toEqual([]);
+  });
+
+  test("collects the owners of all paths once", () => {
+    expect(
+      findCodeowners(repoRoot, ["src/a.ts", "src/b.ts", "lib/c.ts"]),
+    ).toEqual(["@acme/backend", "@acme/core"]);
+  });
+
+  test("returns no owners without a CODEOWNERS file", () => {
+    expect(findCodeowners(join(repoRoot, "empty"), ["a.ts"])).toEqual([]);
+  });
+});
@@ -0,0 +1,273 @@
+#!/usr/bin/env bun
+
+/**
+ * Triage for newly created AI PRs: labels, assignees, milestone, reviewers
+ * (including the source PR's author and CODEOWNERS) and auto-merge
+ */
+
+import { Octokit } from "@octokit/rest";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { matchesAnyGlob } from "./utils.ts";
+
+// Locations GitHub reads CODEOWNERS from, in order of precedence
+const CODEOWNERS_PATHS = [
+  ".github/CODEOWNERS",
+  "CODEOWNERS",
+  "docs/CODEOWNERS",
+];
+
+export type MergeMethod = "merge" | "squash" | "rebase";
+
+export interface PRMetadata {
+  labels: string[];
+  assignees: string[];
+  /** Milestone number or title */
+  milestone: string;
+  reviewers: string[];
+  teamReviewers: string[];
+  /** Request review from the source PR's author */
+  reviewSourceAuthor: boolean;
+  /** Request review from the CODEOWNERS of the changed files */
+  reviewCodeowners: boolean;
+  autoMerge: MergeMethod | null;
+}
+
+interface CodeownersRule {
+  pattern: string;
+  owners: string[];
+}
+
+export function parseMergeMethod(
+  input: string | undefined,
+): MergeMethod | null {
+  const method = (input || "").trim();
+  if (!method || method === "false") {
+    return null;
+  }
+  if (method !== "merge" && method !== "squash" && method !== "rebase") {
+    throw new Error(
+      `Invalid pr_auto_merge: ${input}. Expected 'merge', 'squash' or 'rebase'`,
+    );
+  }
+  return method;
+}
+
+/**
+ * Parses CODEOWNERS rules. A rule without owners clears ownership.
+ */
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.replace(/(^|\s)#.*$/, "").trim();
+    if (!line) {
+      continue;
+    }
+    const [pattern = "", ...owners] = line.split(/\s+/);
+    rules.push({ pattern, owners });
+  }
+  return rules;
+}
+
+/**
+ * Matches a path against a CODEOWNERS pattern. Leading slashes anchor the
+ * pattern to the repository root; a pattern without glob characters also
+ * matches everything below it when it names a directory.
+ */
+function matchesCodeownersPattern(path: string, pattern: string): boolean {
+  if (pattern === "*") {
+    return true;
+  }
+  const anchored = pattern.startsWith("/");
+  const glob = anchored ? pattern.slice(1) : pattern;
+  const candidates =
+    glob.endsWith("/") || /[*?[]/.test(glob) ? [glob] : [glob, `${glob}/`];
+  // matchesAnyGlob matches slash-free patterns in any directory
+  return candidates.some((candidate) =>
+    anchored && !candidate.includes("/")
+      ? matchesAnyGlob(path, [`${candidate}/**`]) || path === candidate
+      : matchesAnyGlob(path, [candidate]),
+  );
+}
+
+/**
+ * Finds the owners of the given paths. As on GitHub, the last matching rule
+ * for a path wins.
+ */
+export function findCodeowners(repoRoot: string, paths: string[]): string[] {
+  const file = CODEOWNERS_PATHS.map((path) => join(repoRoot, path)).find(
+    existsSync,
+  );
+  if (!file) {
+    return [];
+  }
+  const rules = parseCodeowners(readFileSync(file, "utf-8"));
+  const owners = new Set<string>();
+  for (const path of paths) {
+    const rule = rules.findLast((candidate) =>
+      matchesCodeownersPattern(path, candidate.pattern),
+    );
+    for (const owner of rule?.owners || []) {
+      owners.add(owner);
+    }
+  }
+  return [...owners];
+}
+
+/**
+ * Splits CODEOWNERS entries into user and team reviewers. Email owners
+ * can't be requested as reviewers and teams must belong to the repo owner.
+ */
+function splitOwners(
+  owners: string[],
+  org: string,
+): { users: string[]; teams: string[] } {
+  const users: string[] = [];
+  const teams: string[] = [];
+  for (const owner of owners) {
+    const match = owner.match(/^@([\w.-]+)(?:\/([\w.-]+))?$/);
+    if (!match?.[1]) {
+      continue;
+    }
+    if (!match[2]) {
+      users.push(match[1]);
+    } else if (match[1].toLowerCase() === org.toLowerCase()) {
+      teams.push(match[2]);
+    }
+  }
+  return { users, teams };
+}
+
+async function warnOnError(action: string, run: () => Promise<unknown>) {
+  try {
+    await run();
+  } catch (error) {
+    console.warn(
+      `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+async function resolveMilestone(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  milestone: string,
+): Promise<number> {
+  if (/^\d+$/.test(milestone)) {
+    return parseInt(milestone, 10);
+  }
+  const milestones = await octokit.paginate(
+    octokit.rest.issues.listMilestones,
+    {
+      owner,
+      repo,
+      state: "open",
+      per_page: 100,
+    },
+  );
+  const match = milestones.find((candidate) => candidate.title === milestone);
+  if (!match) {
+    throw new Error(`No open milestone titled "${milestone}"`);
+  }
+  return match.number;
+}
+
+/**
+ * Applies labels, assignees, milestone, reviewers and auto-merge to a PR.
+ * The PR already exists at this point, so failures are logged as warnings
+ * instead of failing the run.
+ */
+export async function applyPRMetadata(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pr: { number: number; node_id: string; author: string },
+  metadata: PRMetadata,
+  context: { repoRoot: string; sourceAuthor: string },
+): Promise<void> {
+  const issue = { owner, repo, issue_number: pr.number };
+
+  if (metadata.labels.length > 0) {
+    await warnOnError("add labels", () =>
+      octokit.rest.issues.addLabels({ ...issue, labels: metadata.labels }),
+    );
+  }
+  if (metadata.assignees.length > 0) {
+    await warnOnError("add assignees", () =>
+      octokit.rest.issues.addAssignees({
+        ...issue,
+        assignees: metadata.assignees,
+      }),
+    );
+  }
+  if (metadata.milestone) {
+    await warnOnError("set milestone", async () =>
+      octokit.rest.issues.update({
+        ...issue,
+        milestone: await resolveMilestone(
+          octokit,
+          owner,
+          repo,
+          metadata.milestone,
+        ),
+      }),
+    );
+  }
+
+  const reviewers = new Set(metadata.reviewers);
+  const teamReviewers = new Set(metadata.teamReviewers);
+  if (metadata.reviewSourceAuthor && context.sourceAuthor) {
+    reviewers.add(context.sourceAuthor);
+  }
+  if (metadata.reviewCodeowners) {
+    await warnOnError("find CODEOWNERS", async () => {
+      const files = await octokit.paginate(octokit.rest.pulls.listFiles, {
+        owner,
+        repo,
+        pull_number: pr.number,
+        per_page: 100,
+      });
+      const paths = files.flatMap((file) =>
+        file.previous_filename
+          ? [file.previous_filename, file.filename]
+          : [file.filename],
+      );
+      const { users, teams } = splitOwners(
+        findCodeowners(context.repoRoot, paths),
+        owner,
+      );
+      users.forEach((user) => reviewers.add(user));
+      teams.forEach((team) => teamReviewers.add(team));
+    });
+  }
+  // GitHub rejects review requests from the PR's own author
+  reviewers.delete(pr.author);
+  if (reviewers.size > 0 || teamReviewers.size > 0) {
+    await warnOnError("request reviewers", () =>
+      octokit.rest.pulls.requestReviewers({
+        owner,
+        repo,
+        pull_number: pr.number,
+        reviewers: [...reviewers],
+        team_reviewers: [...teamReviewers],
+      }),
+    );
+  }
+
+  const autoMerge = metadata.autoMerge;
+  if (autoMerge) {
+    await warnOnError("enable auto-merge", () =>
+      octokit.graphql(
+        `mutation($id: ID!, $method: PullRequestMergeMethod!) {
+          enablePullRequestAutoMerge(
+            input: { pullRequestId: $id, mergeMethod: $method }
+          ) {
+            clientMutationId
+          }
+        }`,
+        { id: pr.node_id, method: autoMerge.toUpperCase() },
+      ),
+    );
+  }
+}
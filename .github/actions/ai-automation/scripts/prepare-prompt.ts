@@ -1,15 +1,102 @@
 #!/usr/bin/env bun
 
 /**
- * Extracts PR data from a pull request and substitutes variables
- * in the prompt template. Works with PRs in any state (OPEN, MERGED, CLOSED).
+ * Extracts PR data from a pull request (or issue data from an issue, or each
+ * PR of a batch) and renders the prompt template. Works with PRs in any state
+ * (OPEN, MERGED, CLOSED).
  */
 
 import * as core from "@actions/core";
 import { Octokit } from "@octokit/rest";
 import { graphql } from "@octokit/graphql";
-import { execFileSync } from "child_process";
-import { substituteVariables, parseRepository, getApiUrl } from "./utils.ts";
+import { writeFileSync } from "fs";
+import {
+  parseRepository,
+  getApiUrl,
+  getTargetRoot,
+  matchesAnyGlob,
+  parseList,
+} from "./utils.ts";
+import { renderTemplate, type TemplateVariables } from "./template.ts";
+import { budgetDiff, parseDiffBudget, type DiffBudgetOptions } from "./diff.ts";
+import {
+  ensureHeadCommit,
+  readFileAtCommit,
+  resolvePRDiff,
+} from "./pr-diff.ts";
+import {
+  fenceUntrusted,
+  hasFencedInput,
+  UNTRUSTED_INPUT_PREAMBLE,
+} from "./untrusted.ts";
+import {
+  formatPlanForPrompt,
+  parsePlanFormat,
+  parseStructuredPlan,
+  STRUCTURED_PLAN_INSTRUCTIONS,
+  type PlanFormat,
+} from "./plan.ts";
+
+// Variables written by PR and issue authors, fenced in the prompt
+const UNTRUSTED_VARIABLES = [
+  "PR_TITLE",
+  "PR_BODY",
+  "PR_DIFF",
+  "PR_COMMITS.message",
+  "PR_REVIEW_COMMENTS.comments.body",
+  "PR_LINKED_ISSUES.title",
+  "PR_LINKED_ISSUES.body",
+  "CHANGED_FILE_CONTENTS",
+  "ISSUE_TITLE",
+  "ISSUE_BODY",
+  "ISSUE_COMMENTS.body",
+  "PRS.title",
+  "PRS.body",
+  "PRS.diff",
+  "PRS.linkedIssues.title",
+  "PRS.linkedIssues.body",
+  "PRS_DIFF",
+  "COMMENT_INSTRUCTIONS",
+];
+
+// Connections are fetched 100 nodes at a time; later pages use PAGE_QUERY
+const PAGE_SIZE = 100;
+
+// Node fields for each paginated connection of a pull request
+const CONNECTION_FIELDS = {
+  commits: `
+    commit {
+      oid
+      message
+      author {
+        name
+        email
+      }
+    }
+  `,
+  files: `
+    path
+    additions
+    deletions
+    changeType
+  `,
+  reviewThreads: `
+    path
+    line
+    isResolved
+    isOutdated
+    comments(first: 100) {
+      nodes {
+        author {
+          login
+        }
+        body
+      }
+    }
+  `,
+};
+
+type Connection = keyof typeof CONNECTION_FIELDS;
 
 // GraphQL query for PR data
 const PR_QUERY = `
@@ -24,38 +111,135 @@ const PR_QUERY = `
         baseRefName
         headRefName
         headRefOid
+        isCrossRepository
         createdAt
         updatedAt
         lastEditedAt
+        mergedAt
         additions
         deletions
         state
-        commits(first: 100) {
-          totalCount
+        url
+        mergeCommit {
+          oid
+          parents {
+            totalCount
+          }
+        }
+        labels(first: 100) {
+          nodes {
+            name
+          }
+        }
+        latestReviews(first: 100) {
+          nodes {
+            author {
+              login
+            }
+            state
+          }
+        }
+        reviewRequests(first: 100) {
           nodes {
-            commit {
-              oid
-              message
-              author {
-                name
-                email
+            requestedReviewer {
+              ... on User {
+                login
+              }
+              ... on Team {
+                slug
               }
             }
           }
         }
-        files(first: 100) {
+        closingIssuesReferences(first: 50) {
           nodes {
-            path
-            additions
-            deletions
-            changeType
+            number
+            title
+            body
+            url
+            state
           }
         }
+        ${(Object.keys(CONNECTION_FIELDS) as Connection[])
+          .map(
+            (name) => `
+        ${name}(first: ${PAGE_SIZE}) {
+          totalCount
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {${CONNECTION_FIELDS[name]}}
+        }`,
+          )
+          .join("")}
       }
     }
   }
 `;
 
+// GraphQL query for subsequent pages of a single connection
+function pageQuery(connection: Connection): string {
+  return `
+    query($owner: String!, $repo: String!, $number: Int!, $after: String!) {
+      repository(owner: $owner, name: $repo) {
+        pullRequest(number: $number) {
+          ${connection}(first: ${PAGE_SIZE}, after: $after) {
+            totalCount
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {${CONNECTION_FIELDS[connection]}}
+          }
+        }
+      }
+    }
+  `;
+}
+
+type Page<T> = {
+  totalCount: number;
+  pageInfo: {
+    hasNextPage: boolean;
+    endCursor: string | null;
+  };
+  nodes: T[];
+};
+
+type CommitNode = {
+  commit: {
+    oid: string;
+    message: string;
+    author: {
+      name: string;
+      email: string;
+    };
+  };
+};
+
+type FileNode = {
+  path: string;
+  additions: number;
+  deletions: number;
+  changeType: string;
+};
+
+type ReviewThreadNode = {
+  path: string;
+  line: number | null;
+  isResolved: boolean;
+  isOutdated: boolean;
+  comments: {
+    nodes: Array<{
+      author: {
+        login: string;
+      } | null;
+      body: string;
+    }>;
+  };
+};
+
 type PullRequestQueryResponse = {
   repository: {
     pullRequest: {
@@ -67,33 +251,54 @@ type PullRequestQueryResponse = {
       baseRefName: string;
       headRefName: string;
       headRefOid: string;
+      isCrossRepository: boolean;
       createdAt: string;
       updatedAt: string | null;
       lastEditedAt: string | null;
+      mergedAt: string | null;
       additions: number;
       deletions: number;
       state: string;
-      commits: {
-        totalCount: number;
+      url: string;
+      mergeCommit: {
+        oid: string;
+        parents: {
+          totalCount: number;
+        };
+      } | null;
+      labels: {
+        nodes: Array<{
+          name: string;
+        }>;
+      };
+      latestReviews: {
+        nodes: Array<{
+          author: {
+            login: string;
+          } | null;
+          state: string;
+        }>;
+      };
+      reviewRequests: {
         nodes: Array<{
-          commit: {
-            oid: string;
-            message: string;
-            author: {
-              name: string;
-              email: string;
-            };
-          };
+          requestedReviewer: {
+            login?: string;
+            slug?: string;
+          } | null;
         }>;
       };
-      files: {
+      closingIssuesReferences: {
         nodes: Array<{
-          path: string;
-          additions: number;
-          deletions: number;
-          changeType: string;
+          number: number;
+          title: string;
+          body: string;
+          url: string;
+          state: string;
         }>;
       };
+      commits: Page<CommitNode>;
+      files: Page<FileNode>;
+      reviewThreads: Page<ReviewThreadNode>;
     } | null;
   };
 };
@@ -117,18 +322,77 @@ function createOctokit(token: string) {
   };
 }
 
+interface ReviewComment {
+  path: string;
+  line: number | null;
+  resolved: boolean;
+  outdated: boolean;
+  comments: Array<{ author: string; body: string }>;
+}
+
 interface PRData {
   title: string;
   number: number;
   author: string;
   body: string;
+  state: string;
+  mergedAt: string;
+  url: string;
   baseBranch: string;
   headRef: string;
+  headBranch: string;
+  isCrossRepository: boolean;
   baseRef: string;
-  changedFiles: string[];
+  labels: string[];
+  reviewers: Array<{ login: string; state: string }>;
+  commits: Array<{ oid: string; message: string }>;
+  reviewComments: ReviewComment[];
+  linkedIssues: Array<{
+    number: number;
+    title: string;
+    body: string;
+    url: string;
+    state: string;
+  }>;
+  files: FileNode[];
   diff: string;
+  diffStat: string;
+  diffTruncated: boolean;
 }
 
+/**
+ * Follows the cursor of a PR connection until all of its nodes are fetched
+ */
+async function fetchAllPages<T>(
+  octokit: ReturnType<typeof createOctokit>,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  connection: Connection,
+  firstPage: Page<T>,
+): Promise<T[]> {
+  const nodes = [...firstPage.nodes];
+  let pageInfo = firstPage.pageInfo;
+  while (pageInfo.hasNextPage && pageInfo.endCursor) {
+    const result = await octokit.graphql<{
+      repository: { pullRequest: Record<Connection, Page<T>> };
+    }>(pageQuery(connection), {
+      owner,
+      repo,
+      number: prNumber,
+      after: pageInfo.endCursor,
+    });
+    const page = result.repository.pullRequest[connection];
+    nodes.push(...page.nodes);
+    pageInfo = page.pageInfo;
+  }
+  if (nodes.length < firstPage.totalCount) {
+    console.warn(
+      `Only ${nodes.length} of ${firstPage.totalCount} ${connection} could be fetched for PR #${prNumber}`,
+    );
+  }
+  return nodes;
+}
 
 /**
  * Fetches PR data using GitHub GraphQL API
@@ -138,6 +402,8 @@ async function fetchPRData(
   owner: string,
   repo: string,
   prNumber: number,
+  budget: DiffBudgetOptions,
+  allowMissingDiff: boolean,
 ): Promise<PRData> {
   const result = await octokit.graphql<PullRequestQueryResponse>(PR_QUERY, {
     owner,
@@ -150,31 +416,64 @@ async function fetchPRData(
     throw new Error(`PR #${prNumber} not found`);
   }
 
-  const changedFiles = pr.files?.nodes?.map((file) => file.path) || [];
+  const [commits, files, reviewThreads] = await Promise.all([
+    fetchAllPages(octokit, owner, repo, prNumber, "commits", pr.commits),
+    fetchAllPages(octokit, owner, repo, prNumber, "files", pr.files),
+    fetchAllPages(
+      octokit,
+      owner,
+      repo,
+      prNumber,
+      "reviewThreads",
+      pr.reviewThreads,
+    ),
+  ]);
 
-  // Get the diff using git
+  // Get the diff the PR introduced
   let diff = "";
+  let diffStat = "";
+  let diffTruncated = false;
   try {
-    const baseRef = pr.baseRefName;
-    const headRef = pr.headRefOid;
-
     // Determine working directory (repository root, not action path)
     const repoRoot = process.env.GITHUB_WORKSPACE || process.cwd();
 
-    // Fetch the base branch (the commit SHA is already available due to fetch-depth: 0)
-    execFileSync("git", ["fetch", "origin", baseRef], {
-      stdio: "pipe",
-      cwd: repoRoot,
-    });
-    const diffOutput = execFileSync(
-      "git",
-      ["diff", `origin/${baseRef}`, headRef],
-      { encoding: "utf-8", cwd: repoRoot },
+    const rawDiff = await resolvePRDiff(
+      octokit.rest,
+      owner,
+      repo,
+      {
+        number: prNumber,
+        state: pr.state,
+        baseRefName: pr.baseRefName,
+        headRefOid: pr.headRefOid,
+        commitCount: pr.commits.totalCount,
+        commitMessages: commits.map((node) => node.commit.message),
+        mergeCommit: pr.mergeCommit
+          ? {
+              oid: pr.mergeCommit.oid,
+              parentCount: pr.mergeCommit.parents.totalCount,
+            }
+          : null,
+      },
+      repoRoot,
     );
-    diff = diffOutput;
+
+    const budgeted = budgetDiff(rawDiff, budget);
+    diff = budgeted.diff;
+    diffStat = budgeted.stat;
+    diffTruncated = budgeted.truncated;
+    if (budgeted.truncated) {
+      console.log(
+        `Diff reduced to fit budget: ${budgeted.omittedFiles.length} file(s) omitted, ${budgeted.truncatedFiles.length} truncated`,
+      );
+    }
   } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!allowMissingDiff) {
+      throw new Error(`Unable to fetch diff for PR #${prNumber}: ${message}`);
+    }
     console.error("Error fetching diff:", error);
-    diff = `[Unable to fetch diff: ${error instanceof Error ? error.message : String(error)}]`;
+    diff = `[Unable to fetch diff: ${message}]`;
   }
 
   return {
@@ -182,48 +481,323 @@ async function fetchPRData(
     number: prNumber,
     author: pr.author?.login || "unknown",
     body: pr.body || "",
+    state: pr.state,
+    mergedAt: pr.mergedAt || "",
+    url: pr.url,
     baseBranch: pr.baseRefName,
     headRef: pr.headRefOid,
+    headBranch: pr.headRefName,
+    isCrossRepository: pr.isCrossRepository,
     baseRef: pr.baseRefName,
-    changedFiles,
+    labels: pr.labels.nodes.map((label) => label.name),
+    reviewers: [
+      ...pr.latestReviews.nodes.map((review) => ({
+        login: review.author?.login || "ghost",
+        state: review.state,
+      })),
+      ...pr.reviewRequests.nodes
+        .map((request) => request.requestedReviewer)
+        .filter((reviewer) => reviewer !== null)
+        .map((reviewer) => ({
+          login: reviewer.login || reviewer.slug || "unknown",
+          state: "REQUESTED",
+        })),
+    ],
+    commits: commits.map((node) => ({
+      oid: node.commit.oid,
+      message: node.commit.message,
+    })),
+    reviewComments: reviewThreads.map((thread) => ({
+      path: thread.path,
+      line: thread.line,
+      resolved: thread.isResolved,
+      outdated: thread.isOutdated,
+      comments: thread.comments.nodes.map((comment) => ({
+        author: comment.author?.login || "ghost",
+        body: comment.body,
+      })),
+    })),
+    linkedIssues: pr.closingIssuesReferences.nodes.map((issue) => ({
+      ...issue,
+      body: issue.body || "",
+    })),
+    files,
     diff,
+    diffStat,
+    diffTruncated,
+  };
+}
+
+interface IssueData {
+  number: number;
+  title: string;
+  author: string;
+  body: string;
+  url: string;
+  labels: string[];
+  comments: Array<{ author: string; body: string; createdAt: string }>;
+}
+
+/**
+ * Fetches issue data and comments using GitHub REST API
+ */
+async function fetchIssueData(
+  octokit: ReturnType<typeof createOctokit>,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+): Promise<IssueData> {
+  const { data: issue } = await octokit.rest.rest.issues.get({
+    owner,
+    repo,
+    issue_number: issueNumber,
+  });
+  if (issue.pull_request) {
+    throw new Error(`#${issueNumber} is a pull request, not an issue`);
+  }
+
+  const comments = await octokit.rest.paginate(
+    octokit.rest.rest.issues.listComments,
+    { owner, repo, issue_number: issueNumber, per_page: 100 },
+  );
+
+  return {
+    number: issueNumber,
+    title: issue.title,
+    author: issue.user?.login || "unknown",
+    body: issue.body || "",
+    url: issue.html_url,
+    labels: issue.labels.map((label) =>
+      typeof label === "string" ? label : label.name || "",
+    ),
+    comments: comments.map((comment) => ({
+      author: comment.user?.login || "ghost",
+      body: comment.body || "",
+      createdAt: comment.created_at,
+    })),
   };
 }
 
 /**
- * Substitutes variables in the prompt template
+ * Builds the template variables for an issue
  */
-function substitutePromptVariables(template: string, data: PRData): string {
-  const variables: Record<string, string> = {
+function buildIssueTemplateVariables(data: IssueData): TemplateVariables {
+  return {
+    ISSUE_NUMBER: String(data.number),
+    ISSUE_TITLE: data.title,
+    ISSUE_AUTHOR: data.author,
+    ISSUE_BODY: data.body,
+    ISSUE_URL: data.url,
+    ISSUE_LABELS: data.labels,
+    ISSUE_COMMENTS: data.comments.map((comment) => ({ ...comment })),
+    REPOSITORY: process.env.REPOSITORY || "",
+  };
+}
+
+/**
+ * Builds the template variables for a PR
+ */
+function buildTemplateVariables(data: PRData): TemplateVariables {
+  return {
     PR_DIFF: data.diff,
+    PR_DIFF_STAT: data.diffStat,
+    PR_DIFF_TRUNCATED: data.diffTruncated,
     PR_TITLE: data.title,
     PR_NUMBER: String(data.number),
     PR_AUTHOR: data.author,
     PR_BODY: data.body,
-    CHANGED_FILES: data.changedFiles.join("\n"),
+    PR_STATE: data.state,
+    PR_MERGED_AT: data.mergedAt,
+    PR_LABELS: data.labels,
+    PR_REVIEWERS: data.reviewers,
+    PR_COMMITS: data.commits,
+    PR_REVIEW_COMMENTS: data.reviewComments.map((thread) => ({
+      ...thread,
+      comments: thread.comments.map((comment) => ({ ...comment })),
+    })),
+    PR_LINKED_ISSUES: data.linkedIssues.map((issue) => ({ ...issue })),
+    CHANGED_FILES: data.files.map((file) => file.path).join("\n"),
+    FILES: data.files.map((file) => ({ ...file })),
     REPOSITORY: process.env.REPOSITORY || "",
     BASE_BRANCH: data.baseBranch,
   };
+}
 
-  return substituteVariables(template, variables);
+/**
+ * Builds the template variables for a batch of PRs. Each PR's diff is
+ * budgeted on its own; PRS_DIFF is the diffs one after another.
+ */
+function buildBatchTemplateVariables(
+  name: string,
+  prs: PRData[],
+): TemplateVariables {
+  const changedFiles = new Set(
+    prs.flatMap((pr) => pr.files.map((file) => file.path)),
+  );
+  return {
+    BATCH_NAME: name,
+    PRS: prs.map((pr) => ({
+      number: pr.number,
+      title: pr.title,
+      author: pr.author,
+      body: pr.body,
+      url: pr.url,
+      state: pr.state,
+      mergedAt: pr.mergedAt,
+      labels: pr.labels,
+      linkedIssues: pr.linkedIssues.map((issue) => ({ ...issue })),
+      changedFiles: pr.files.map((file) => file.path),
+      diffStat: pr.diffStat,
+      diff: pr.diff,
+    })),
+    PRS_DIFF: prs.map((pr) => pr.diff.trimEnd()).join("\n"),
+    PRS_DIFF_TRUNCATED: prs.some((pr) => pr.diffTruncated),
+    CHANGED_FILES: [...changedFiles].join("\n"),
+    REPOSITORY: process.env.REPOSITORY || "",
+  };
 }
 
 /**
- * Embeds plan into implementation prompt template
+ * Reads the changed files at the head of the PR that changed them for
+ * {{CHANGED_FILE_CONTENTS}}, one <file> block each; in a batch, the last PR
+ * that changed a file wins. The workspace may be checked out at another
+ * commit, so the files are read from git. Deleted, binary and excluded
+ * files are left out; the last file that doesn't fit the budget is
+ * truncated and the ones after it are only listed.
  */
-function embedPlan(prompt: string, plan: string): string {
+function buildChangedFileContents(
+  repoRoot: string,
+  prs: PRData[],
+  budget: DiffBudgetOptions,
+): { contents: string; truncated: boolean } {
+  const heads = new Map<string, string>();
+  for (const pr of prs) {
+    try {
+      ensureHeadCommit(pr.number, pr.headRef, repoRoot);
+    } catch (error) {
+      console.warn(
+        `Leaving the files of PR #${pr.number} out of CHANGED_FILE_CONTENTS: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      continue;
+    }
+    for (const file of pr.files) {
+      heads.set(file.path, pr.headRef);
+    }
+  }
+
+  const blocks: string[] = [];
+  const omitted: string[] = [];
+  let truncated = false;
+  let remaining = budget.maxBytes > 0 ? budget.maxBytes : Infinity;
+  for (const [path, head] of heads) {
+    if (matchesAnyGlob(path, budget.exclude)) {
+      continue;
+    }
+    let content = readFileAtCommit(head, path, repoRoot);
+    // Deleted by the change, or not a regular file
+    if (content === null || content.includes("\0")) {
+      continue;
+    }
+    if (remaining <= 0) {
+      omitted.push(path);
+      continue;
+    }
+    let size = Buffer.byteLength(content);
+    if (size > remaining) {
+      content = `${Buffer.from(content).subarray(0, remaining).toString("utf-8")}
+[... truncated to fit the size budget]`;
+      size = remaining;
+      truncated = true;
+    }
+    remaining -= size;
+    blocks.push(`<file path="${path}">
+${content.trimEnd()}
+</file>`);
+  }
+  if (omitted.length > 0) {
+    blocks.push(`[Left out to fit the size budget: ${omitted.join(", ")}]`);
+  }
+  return {
+    contents: blocks.join("\n\n"),
+    truncated: truncated || omitted.length > 0,
+  };
+}
+
+/**
+ * Writes template variables to a file so later steps (PR title and body)
+ * render with the same data. The diffs and file contents are left out to
+ * keep the file small.
+ */
+function writeVariablesFile(variables: TemplateVariables): string {
+  const {
+    PR_DIFF: _diff,
+    PRS_DIFF: _batchDiff,
+    CHANGED_FILE_CONTENTS: _contents,
+    ...rest
+  } = variables;
+  if (Array.isArray(rest.PRS)) {
+    rest.PRS = rest.PRS.map((pr) =>
+      pr && typeof pr === "object" && !Array.isArray(pr)
+        ? { ...pr, diff: undefined }
+        : pr,
+    );
+  }
+  const path = `${process.env.RUNNER_TEMP || "/tmp"}/ai-template-variables.json`;
+  writeFileSync(path, JSON.stringify(rest, null, 2));
+  return path;
+}
+
+/**
+ * Embeds plan into implementation prompt template. Structured plans are
+ * broken down into their steps.
+ */
+function embedPlan(prompt: string, plan: string, format: PlanFormat): string {
   if (!plan || plan.trim().length === 0) {
     return prompt;
   }
 
+  const content =
+    format === "structured"
+      ? formatPlanForPrompt(parseStructuredPlan(plan))
+      : plan;
   return `Based on this plan:
 <plan>
-${plan}
+${content}
 </plan>
 
 ${prompt}`;
 }
 
+/**
+ * Adds reviewer feedback on a previous plan to the plan prompt. Both come
+ * from comments on the source, so they are fenced like the other untrusted
+ * input.
+ */
+export function embedPlanFeedback(
+  prompt: string,
+  previousPlan: string,
+  feedback: string,
+  fence: boolean,
+): string {
+  if (!feedback || feedback.trim().length === 0) {
+    return prompt;
+  }
+
+  const plan = fence
+    ? fenceUntrusted("PREVIOUS_PLAN", previousPlan)
+    : `<previous_plan>\n${previousPlan}\n</previous_plan>`;
+  const previous = previousPlan
+    ? `A previous version of the plan was:
+${plan}
+
+`
+    : "";
+  return `${prompt}
+
+${previous}A reviewer asked for the plan to be revised with this feedback:
+${fence ? fenceUntrusted("PLAN_FEEDBACK", feedback) : `<feedback>\n${feedback}\n</feedback>`}`;
+}
+
 async function main() {
   try {
     const promptTemplate = process.env.PROMPT_TEMPLATE;
@@ -231,10 +805,29 @@ async function main() {
       throw new Error("PROMPT_TEMPLATE environment variable is required");
     }
 
-    const prNumber = parseInt(process.env.PR_NUMBER || "");
-    if (!prNumber || isNaN(prNumber)) {
+    const sourceType =
+      process.env.SOURCE_TYPE === "issue" || process.env.SOURCE_TYPE === "batch"
+        ? process.env.SOURCE_TYPE
+        : "pr";
+    const sourceNumber = parseInt(
+      (sourceType === "issue"
+        ? process.env.ISSUE_NUMBER
+        : process.env.PR_NUMBER) || "",
+    );
+    const prNumbers = parseList(process.env.PR_NUMBERS).map((entry) =>
+      parseInt(entry, 10),
+    );
+    if (sourceType === "batch") {
+      if (prNumbers.length === 0 || prNumbers.some(isNaN)) {
+        throw new Error(
+          "PR_NUMBERS environment variable is required and must be a list of numbers",
+        );
+      }
+    } else if (!sourceNumber || isNaN(sourceNumber)) {
       throw new Error(
-        "PR_NUMBER environment variable is required and must be a number",
+        sourceType === "issue"
+          ? "ISSUE_NUMBER environment variable is required and must be a number"
+          : "PR_NUMBER environment variable is required and must be a number",
       );
     }
 
@@ -259,30 +852,180 @@ async function main() {
       baseBranch = data.default_branch;
     }
 
-    // Fetch PR data
     const octokit = createOctokit(githubToken);
-    const prData = await fetchPRData(octokit, owner, repo, prNumber);
+    const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+    const renderOptions = {
+      strict: process.env.STRICT_TEMPLATES === "true",
+      workspace,
+      untrusted:
+        process.env.FENCE_UNTRUSTED_INPUT === "false"
+          ? []
+          : UNTRUSTED_VARIABLES,
+    };
+
+    const budget = {
+      maxBytes: parseDiffBudget(process.env.MAX_DIFF_SIZE),
+      exclude: parseList(process.env.DIFF_EXCLUDE),
+    };
+    const allowMissingDiff = process.env.ALLOW_MISSING_DIFF === "true";
+    const contentsBudget = {
+      maxBytes: parseDiffBudget(process.env.MAX_FILE_CONTENTS_SIZE),
+      exclude: budget.exclude,
+    };
+    // PRs whose changed files go into {{CHANGED_FILE_CONTENTS}}
+    let sourcePRs: PRData[] = [];
+
+    let variables: TemplateVariables;
+    if (sourceType === "batch") {
+      // The PRs share the diff budget (0 stays unlimited); one at a time to
+      // go easy on the API
+      const share =
+        budget.maxBytes > 0
+          ? Math.max(1, Math.floor(budget.maxBytes / prNumbers.length))
+          : 0;
+      const prs: PRData[] = [];
+      for (const number of prNumbers) {
+        prs.push(
+          await fetchPRData(
+            octokit,
+            owner,
+            repo,
+            number,
+            { ...budget, maxBytes: share },
+            allowMissingDiff,
+          ),
+        );
+      }
+      const batchName = process.env.BATCH_NAME || "";
+      variables = {
+        ...buildBatchTemplateVariables(batchName, prs),
+        BASE_BRANCH: baseBranch,
+      };
 
-    // Substitute variables in prompt
-    let finalPrompt = substitutePromptVariables(promptTemplate, prData);
+      sourcePRs = prs;
+
+      core.setOutput("pr_numbers", prNumbers.join(","));
+      core.setOutput("batch_name", batchName);
+      console.log(`Batch ${batchName}: ${prs.length} PR(s)`);
+    } else if (sourceType === "issue") {
+      // Fetch issue data
+      const issueData = await fetchIssueData(
+        octokit,
+        owner,
+        repo,
+        sourceNumber,
+      );
+      variables = {
+        ...buildIssueTemplateVariables(issueData),
+        BASE_BRANCH: baseBranch,
+      };
+
+      core.setOutput("issue_number", String(issueData.number));
+      core.setOutput("issue_title", issueData.title);
+      core.setOutput("issue_author", issueData.author);
+      console.log(`Issue #${issueData.number}: ${issueData.title}`);
+    } else {
+      // Fetch PR data
+      const prData = await fetchPRData(
+        octokit,
+        owner,
+        repo,
+        sourceNumber,
+        budget,
+        allowMissingDiff,
+      );
+      variables = buildTemplateVariables(prData);
+      sourcePRs = [prData];
+
+      core.setOutput("pr_number", String(prData.number));
+      core.setOutput("pr_title", prData.title);
+      core.setOutput("pr_author", prData.author);
+      core.setOutput("pr_body", prData.body);
+      core.setOutput("head_ref", prData.headBranch);
+      core.setOutput("head_sha", prData.headRef);
+      core.setOutput("is_cross_repository", String(prData.isCrossRepository));
+      console.log(`PR #${prData.number}: ${prData.title}`);
+    }
+
+    if (sourceType !== "issue") {
+      const { contents, truncated } = buildChangedFileContents(
+        workspace,
+        sourcePRs,
+        contentsBudget,
+      );
+      variables.CHANGED_FILE_CONTENTS = contents;
+      variables.CHANGED_FILE_CONTENTS_TRUNCATED = truncated;
+    }
+
+    // Free-text instructions from a slash command in the triggering comment
+    variables.COMMENT_INSTRUCTIONS = process.env.COMMENT_INSTRUCTIONS || "";
+    const targetRepository = process.env.TARGET_REPOSITORY || "";
+    variables.TARGET_REPOSITORY = targetRepository || repository;
+
+    // Render the prompt template
+    let finalPrompt = renderTemplate(promptTemplate, variables, renderOptions);
 
     // Embed plan if provided
     const plan = process.env.PLAN;
     if (plan) {
-      finalPrompt = embedPlan(finalPrompt, plan);
+      finalPrompt = embedPlan(
+        finalPrompt,
+        plan,
+        parsePlanFormat(process.env.PLAN_FORMAT),
+      );
+    }
+
+    // Ask the plan phase for a plan that matches the plan schema
+    if (parsePlanFormat(process.env.REQUEST_PLAN_FORMAT) === "structured") {
+      finalPrompt = `${finalPrompt.trimEnd()}
+
+${STRUCTURED_PLAN_INSTRUCTIONS}`;
+    }
+
+    // Revise a plan that was sent back for changes
+    finalPrompt = embedPlanFeedback(
+      finalPrompt,
+      process.env.PREVIOUS_PLAN || "",
+      process.env.PLAN_FEEDBACK || "",
+      renderOptions.untrusted.length > 0,
+    );
+
+    // Point the assistant at the target repository's checkout
+    if (targetRepository) {
+      finalPrompt = `${finalPrompt.trimEnd()}
+
+Make your changes in the ${targetRepository} repository, checked out at \`${getTargetRoot()}\`. The rest of the workspace is the ${repository} repository the ${sourceType === "issue" ? "issue comes" : sourceType === "batch" ? "PRs come" : "PR comes"} from. Read it for context, but don't change it.`;
+    }
+
+    // Ask the assistant to describe its changes in a commit message
+    const commitMessageFile = process.env.COMMIT_MESSAGE_FILE;
+    if (commitMessageFile) {
+      finalPrompt = `${finalPrompt.trimEnd()}
+
+When you are done, write a commit message for your changes to \`${commitMessageFile}\` in ${targetRepository ? `\`${getTargetRoot()}\`` : "the repository root"}, using the Conventional Commits format (e.g. \`fix(parser): handle empty input\`). The file is removed before committing.`;
+    }
+
+    // Tell the assistant how to treat the fenced input
+    if (hasFencedInput(finalPrompt)) {
+      finalPrompt = `${UNTRUSTED_INPUT_PREAMBLE}
+
+${finalPrompt}`;
     }
 
     // Set outputs
     core.setOutput("final_prompt", finalPrompt);
+    // Keep a copy of the prompt for the run report
+    const promptFile = process.env.PROMPT_FILE;
+    if (promptFile) {
+      writeFileSync(promptFile, finalPrompt);
+      core.setOutput("prompt_file", promptFile);
+    }
     core.setOutput("base_branch", baseBranch);
-    core.setOutput("pr_number", String(prData.number));
-    core.setOutput("pr_title", prData.title);
-    core.setOutput("pr_author", prData.author);
-    core.setOutput("pr_body", prData.body);
+    core.setOutput("source_type", sourceType);
+    core.setOutput("variables_file", writeVariablesFile(variables));
 
     console.log("Prompt prepared successfully");
     console.log(`Base branch: ${baseBranch}`);
-    console.log(`PR #${prData.number}: ${prData.title}`);
     if (plan) {
       console.log("Plan embedded in implementation prompt");
     }
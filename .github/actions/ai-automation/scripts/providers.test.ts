@@ -0,0 +1,151 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  getProvider,
+  parsePromptMode,
+  parseProviderPhase,
+  type ProviderArtifacts,
+  type ProviderInvocation,
+} from "./providers.ts";
+
+const tempDir = mkdtempSync(join(tmpdir(), "providers-test-"));
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+const invocation = (
+  overrides: Partial<ProviderInvocation> = {},
+): ProviderInvocation => ({
+  phase: "implement",
+  prompt: "Fix the docs\n",
+  repoRoot: tempDir,
+  tempDir,
+  planFile: join(tempDir, "plan.md"),
+  ...overrides,
+});
+
+const artifacts = (
+  overrides: Partial<ProviderArtifacts> = {},
+): ProviderArtifacts => ({
+  planFile: "",
+  output: "",
+  outputFile: "",
+  executionFile: "",
+  usageFile: "",
+  ...overrides,
+});
+
+describe("inputs", () => {
+  test("default to implementing with the prompt on stdin", () => {
+    expect(parseProviderPhase(undefined)).toBe("implement");
+    expect(parseProviderPhase(" plan ")).toBe("plan");
+    expect(parsePromptMode("")).toBe("stdin");
+    expect(parsePromptMode("file")).toBe("file");
+  });
+
+  test("reject unknown values", () => {
+    expect(() => parseProviderPhase("review")).toThrow(
+      "Invalid provider phase: review",
+    );
+    expect(() => parsePromptMode("args")).toThrow(
+      "Invalid provider_prompt_mode: args",
+    );
+    expect(() => getProvider("aider")).toThrow(
+      "Unknown provider: aider. Expected 'claude', 'codex', 'command'",
+    );
+  });
+});
+
+describe("command provider", () => {
+  test("passes the prompt on stdin and captures the output", () => {
+    const provider = getProvider("command", {
+      command: 'echo "$AI_PHASE: $(cat)"',
+      promptMode: "stdin",
+    });
+    expect(provider.external).toBe(false);
+    const result = provider.run(invocation());
+    expect(result.exitCode).toBe(0);
+    expect(readFileSync(result.outputFile, "utf-8")).toBe(
+      "implement: Fix the docs\n",
+    );
+    // Without usage of its own, the run still reports its duration
+    expect(
+      provider.collectUsage(artifacts({ usageFile: result.usageFile })),
+    ).toMatchObject({ inputTokens: null, durationMs: expect.any(Number) });
+  });
+
+  test("passes the prompt as a file and reads the reported usage", () => {
+    const provider = getProvider("command", {
+      command:
+        'cat "$AI_PROMPT_FILE" > "$AI_PLAN_FILE"; echo \'{"input_tokens":12,"cost_usd":0.5,"turns":"3"}\' > "$AI_USAGE_FILE"; exit 3',
+      promptMode: "file",
+    });
+    const run = invocation({ phase: "plan" });
+    const result = provider.run(run);
+    expect(result.exitCode).toBe(3);
+    expect(
+      provider.collectPlan(artifacts({ planFile: run.planFile, output: "x" })),
+    ).toBe("Fix the docs");
+    expect(
+      provider.collectUsage(artifacts({ usageFile: result.usageFile })),
+    ).toEqual({
+      inputTokens: 12,
+      outputTokens: null,
+      costUsd: 0.5,
+      durationMs: null,
+      turns: null,
+    });
+  });
+
+  test("requires a command", () => {
+    expect(() => getProvider("command").run(invocation())).toThrow(
+      "provider_command is required for the command provider",
+    );
+  });
+});
+
+describe("external providers", () => {
+  test("fall back to the output when no plan was written", () => {
+    const codex = getProvider("codex");
+    expect(codex.external).toBe(true);
+    expect(() => codex.run(invocation())).toThrow(
+      "The codex provider runs through its GitHub Action step",
+    );
+    expect(
+      codex.collectPlan(
+        artifacts({ planFile: join(tempDir, "missing.md"), output: " Plan\n" }),
+      ),
+    ).toBe("Plan");
+    expect(codex.collectUsage(artifacts())).toBeNull();
+  });
+
+  test("read Claude's usage from the execution log", () => {
+    const executionFile = join(tempDir, "execution.json");
+    writeFileSync(
+      executionFile,
+      JSON.stringify([
+        { type: "system" },
+        {
+          type: "result",
+          usage: { input_tokens: 100, output_tokens: 20 },
+          total_cost_usd: 0.25,
+          duration_ms: 5000,
+          num_turns: 4,
+        },
+      ]),
+    );
+    const claude = getProvider("claude");
+    expect(claude.collectUsage(artifacts({ executionFile }))).toEqual({
+      inputTokens: 100,
+      outputTokens: 20,
+      costUsd: 0.25,
+      durationMs: 5000,
+      turns: 4,
+    });
+    writeFileSync(executionFile, "not json");
+    expect(claude.collectUsage(artifacts({ executionFile }))).toBeNull();
+  });
+});
@@ -0,0 +1,299 @@
+#!/usr/bin/env bun
+
+/**
+ * AI providers behind a common interface: prepare an invocation, run it,
+ * collect the plan or output, and report usage.
+ *
+ * Claude and Codex run through their own GitHub Actions, so action.yml runs
+ * them and this module only collects their results. The "command" provider
+ * runs any CLI (a local model, Aider, an in-house agent or a fake agent
+ * script for tests) with the prompt on stdin or in a file.
+ */
+
+import { spawnSync } from "child_process";
+import { existsSync, readFileSync, rmSync, writeFileSync } from "fs";
+
+/** Repair runs fix changes that failed verification */
+export type ProviderPhase = "plan" | "implement" | "repair";
+
+export interface ProviderInvocation {
+  phase: ProviderPhase;
+  prompt: string;
+  repoRoot: string;
+  tempDir: string;
+  /** Where the plan phase is asked to write the plan */
+  planFile: string;
+}
+
+export interface PreparedInvocation {
+  /** Environment variables passed to the provider */
+  env: Record<string, string>;
+  promptFile: string;
+  outputFile: string;
+  usageFile: string;
+}
+
+export interface ProviderResult {
+  exitCode: number;
+  /** Path to the provider's captured output */
+  outputFile: string;
+  usageFile: string;
+}
+
+export interface ProviderUsage {
+  inputTokens: number | null;
+  outputTokens: number | null;
+  costUsd: number | null;
+  durationMs: number | null;
+  turns: number | null;
+}
+
+/** Results of earlier steps a provider may read its plan or usage from */
+export interface ProviderArtifacts {
+  planFile: string;
+  /** Final message or captured output of the run */
+  output: string;
+  /** Output file of the run (command provider) */
+  outputFile: string;
+  /** Execution log written by the provider's action (Claude) */
+  executionFile: string;
+  /** Usage file written by the command (command provider) */
+  usageFile: string;
+}
+
+export interface Provider {
+  name: string;
+  /** Runs through its own GitHub Action step rather than run() */
+  external: boolean;
+  prepare(invocation: ProviderInvocation): PreparedInvocation;
+  run(invocation: ProviderInvocation): ProviderResult;
+  collectPlan(artifacts: ProviderArtifacts): string;
+  collectUsage(artifacts: ProviderArtifacts): ProviderUsage | null;
+}
+
+export interface CommandProviderOptions {
+  /** Shell command line to run */
+  command: string;
+  /** How the prompt is passed: on stdin, or as a file named by AI_PROMPT_FILE */
+  promptMode: "stdin" | "file";
+}
+
+function readIfExists(path: string): string {
+  return path && existsSync(path) ? readFileSync(path, "utf-8").trim() : "";
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === "number" && isFinite(value) ? value : null;
+}
+
+function prepareFiles(invocation: ProviderInvocation): PreparedInvocation {
+  const base = `${invocation.tempDir}/ai-${invocation.phase}`;
+  const prepared = {
+    promptFile: `${base}-prompt.md`,
+    outputFile: `${base}-output.txt`,
+    usageFile: `${base}-usage.json`,
+    env: {} as Record<string, string>,
+  };
+  writeFileSync(prepared.promptFile, invocation.prompt);
+  prepared.env = {
+    AI_PHASE: invocation.phase,
+    AI_PROMPT_FILE: prepared.promptFile,
+    AI_PLAN_FILE: invocation.planFile,
+    AI_USAGE_FILE: prepared.usageFile,
+  };
+  return prepared;
+}
+
+/**
+ * Plans are written to the plan file; the final message or output is the
+ * fallback for providers that answer instead of writing the file
+ */
+function collectPlanOrOutput(artifacts: ProviderArtifacts): string {
+  return (
+    readIfExists(artifacts.planFile) ||
+    artifacts.output.trim() ||
+    readIfExists(artifacts.outputFile)
+  );
+}
+
+function runsInAction(name: string): Provider["run"] {
+  return () => {
+    throw new Error(
+      `The ${name} provider runs through its GitHub Action step, not run()`,
+    );
+  };
+}
+
+/**
+ * Reads usage from Claude Code's execution log, whose final "result"
+ * message carries the totals for the run
+ */
+function collectClaudeUsage(
+  artifacts: ProviderArtifacts,
+): ProviderUsage | null {
+  const log = readIfExists(artifacts.executionFile);
+  if (!log) {
+    return null;
+  }
+  try {
+    const messages: unknown = JSON.parse(log);
+    const result = (Array.isArray(messages) ? messages : []).findLast(
+      (message) => message?.type === "result",
+    );
+    if (!result) {
+      return null;
+    }
+    return {
+      inputTokens: numberOrNull(result.usage?.input_tokens),
+      outputTokens: numberOrNull(result.usage?.output_tokens),
+      costUsd: numberOrNull(result.total_cost_usd),
+      durationMs: numberOrNull(result.duration_ms),
+      turns: numberOrNull(result.num_turns),
+    };
+  } catch {
+    return null;
+  }
+}
+
+const claude: Provider = {
+  name: "claude",
+  external: true,
+  prepare: prepareFiles,
+  run: runsInAction("claude"),
+  collectPlan: collectPlanOrOutput,
+  collectUsage: collectClaudeUsage,
+};
+
+const codex: Provider = {
+  name: "codex",
+  external: true,
+  prepare: prepareFiles,
+  run: runsInAction("codex"),
+  collectPlan: collectPlanOrOutput,
+  // The Codex action doesn't report usage
+  collectUsage: () => null,
+};
+
+/**
+ * Usage a command reported by writing JSON to AI_USAGE_FILE, with the same
+ * field names as the run report: input_tokens, output_tokens, cost_usd,
+ * duration_ms and turns
+ */
+function collectCommandUsage(
+  artifacts: ProviderArtifacts,
+): ProviderUsage | null {
+  const content = readIfExists(artifacts.usageFile);
+  if (!content) {
+    return null;
+  }
+  try {
+    const usage = JSON.parse(content);
+    return {
+      inputTokens: numberOrNull(usage.input_tokens),
+      outputTokens: numberOrNull(usage.output_tokens),
+      costUsd: numberOrNull(usage.cost_usd),
+      durationMs: numberOrNull(usage.duration_ms),
+      turns: numberOrNull(usage.turns),
+    };
+  } catch {
+    console.warn(`Ignoring invalid usage file ${artifacts.usageFile}`);
+    return null;
+  }
+}
+
+function createCommandProvider(options: CommandProviderOptions): Provider {
+  return {
+    name: "command",
+    external: false,
+    prepare: prepareFiles,
+    run(invocation) {
+      if (!options.command.trim()) {
+        throw new Error(
+          "provider_command is required for the command provider",
+        );
+      }
+      const prepared = prepareFiles(invocation);
+      rmSync(prepared.usageFile, { force: true });
+      const start = Date.now();
+      const result = spawnSync("bash", ["-c", options.command], {
+        cwd: invocation.repoRoot,
+        env: { ...process.env, ...prepared.env },
+        input: options.promptMode === "stdin" ? invocation.prompt : "",
+        encoding: "utf-8",
+        maxBuffer: 256 * 1024 * 1024,
+        stdio: ["pipe", "pipe", "inherit"],
+      });
+      if (result.error) {
+        throw result.error;
+      }
+      const output = result.stdout || "";
+      writeFileSync(prepared.outputFile, output);
+      if (output.trim()) {
+        console.log(output.trimEnd());
+      }
+
+      // Fill in the duration when the command reports no usage of its own
+      if (!existsSync(prepared.usageFile)) {
+        writeFileSync(
+          prepared.usageFile,
+          JSON.stringify({ duration_ms: Date.now() - start }),
+        );
+      }
+      return {
+        exitCode: result.status ?? 1,
+        outputFile: prepared.outputFile,
+        usageFile: prepared.usageFile,
+      };
+    },
+    collectPlan: collectPlanOrOutput,
+    collectUsage: collectCommandUsage,
+  };
+}
+
+export function parseProviderPhase(input: string | undefined): ProviderPhase {
+  const phase = (input || "implement").trim();
+  if (phase !== "plan" && phase !== "implement" && phase !== "repair") {
+    throw new Error(
+      `Invalid provider phase: ${input}. Expected 'plan', 'implement' or 'repair'`,
+    );
+  }
+  return phase;
+}
+
+export function parsePromptMode(
+  input: string | undefined,
+): CommandProviderOptions["promptMode"] {
+  const mode = (input || "stdin").trim();
+  if (mode !== "stdin" && mode !== "file") {
+    throw new Error(
+      `Invalid provider_prompt_mode: ${input}. Expected 'stdin' or 'file'`,
+    );
+  }
+  return mode;
+}
+
+export const PROVIDER_NAMES = ["claude", "codex", "command"];
+
+/**
+ * Looks up a provider by name. The command provider is configured from the
+ * provider_command and provider_prompt_mode inputs.
+ */
+export function getProvider(
+  name: string,
+  commandOptions?: CommandProviderOptions,
+): Provider {
+  switch (name) {
+    case "claude":
+      return claude;
+    case "codex":
+      return codex;
+    case "command":
+      return createCommandProvider(
+        commandOptions || { command: "", promptMode: "stdin" },
+      );
+    default:
+      throw new Error(
+        `Unknown provider: ${name}. Expected ${PROVIDER_NAMES.map((provider) => `'${provider}'`).join(", ")}`,
+      );
+  }
+}
@@ -0,0 +1,56 @@
+#!/usr/bin/env bun
+
+/**
+ * Runs a provider that doesn't have its own GitHub Action step (the
+ * "command" provider) for the plan, implementation or repair phase
+ */
+
+import * as core from "@actions/core";
+import {
+  getProvider,
+  parsePromptMode,
+  parseProviderPhase,
+} from "./providers.ts";
+import { getTargetRoot } from "./utils.ts";
+
+async function main() {
+  try {
+    const prompt = process.env.PROMPT;
+    if (!prompt) {
+      throw new Error("PROMPT environment variable is required");
+    }
+    const phase = parseProviderPhase(process.env.PROVIDER_PHASE);
+    const tempDir = process.env.RUNNER_TEMP || "/tmp";
+    const provider = getProvider(process.env.PROVIDER || "", {
+      command: process.env.PROVIDER_COMMAND || "",
+      promptMode: parsePromptMode(process.env.PROVIDER_PROMPT_MODE),
+    });
+    if (provider.external) {
+      throw new Error(
+        `The ${provider.name} provider runs through its own action step`,
+      );
+    }
+
+    console.log(`Running the ${provider.name} provider (${phase} phase)`);
+    const result = provider.run({
+      phase,
+      prompt,
+      repoRoot: getTargetRoot(),
+      tempDir,
+      planFile: process.env.PLAN_FILE || `${tempDir}/plan.txt`,
+    });
+    core.setOutput("output_file", result.outputFile);
+    core.setOutput("usage_file", result.usageFile);
+    if (result.exitCode !== 0) {
+      throw new Error(`The command exited with code ${result.exitCode}`);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    core.setFailed(`Failed to run provider: ${errorMessage}`);
+    process.exit(1);
+  }
+}
+
+if (import.meta.main) {
+  main();
+}
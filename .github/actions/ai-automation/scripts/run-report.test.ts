@@ -0,0 +1,148 @@
+import { afterAll, afterEach, describe, expect, test } from "bun:test";
+import { execFileSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { buildRunReport, formatRunSummary } from "./run-report.ts";
+
+const repoRoot = mkdtempSync(join(tmpdir(), "run-report-test-"));
+const git = (...args: string[]) =>
+  execFileSync("git", args, {
+    cwd: repoRoot,
+    encoding: "utf-8",
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: "test",
+      GIT_AUTHOR_EMAIL: "test@example.com",
+      GIT_COMMITTER_NAME: "test",
+      GIT_COMMITTER_EMAIL: "test@example.com",
+    },
+  }).trim();
+git("init", "-q");
+writeFileSync(join(repoRoot, "README.md"), "one\ntwo\n");
+git("add", "-A");
+git("commit", "-q", "-m", "base");
+const baseSha = git("rev-parse", "HEAD");
+writeFileSync(join(repoRoot, "README.md"), "one\nTWO\nthree\n");
+writeFileSync(join(repoRoot, "logo.png"), Buffer.from([0, 1, 2, 0]));
+git("add", "-A");
+git("commit", "-q", "-m", "change");
+
+const promptFile = join(repoRoot, "..", `${repoRoot.split("/").pop()}.md`);
+writeFileSync(promptFile, "Use ``` fences\n");
+
+const savedEnv = { ...process.env };
+
+function setEnv(env: Record<string, string>) {
+  process.env = {
+    PATH: savedEnv.PATH,
+    GITHUB_WORKSPACE: repoRoot,
+    REPOSITORY: "acme/widgets",
+    ...env,
+  };
+}
+
+afterEach(() => {
+  process.env = { ...savedEnv };
+});
+
+afterAll(() => {
+  rmSync(repoRoot, { recursive: true, force: true });
+  rmSync(promptFile, { force: true });
+});
+
+describe("buildRunReport", () => {
+  test("collects the run's outcome", () => {
+    setEnv({
+      STEP_OUTCOMES: "prepare=success\nrun=success\ncreate-pr=",
+      SOURCE_TYPE: "pr",
+      PR_NUMBER: "7",
+      SOURCE_TITLE: "Fix docs",
+      PROVIDER: "command",
+      BASE_SHA: baseSha,
+      BRANCH_NAME: "ai/pr-7-docs",
+      PROMPT_FILE: promptFile,
+      PR_URL: "https://github.com/acme/widgets/pull/8",
+      AI_PR_NUMBER: "8",
+      CHANGED_LINES: "3",
+      SIZE_LIMIT_ACTION: "draft",
+      SIZE_LIMIT_VIOLATIONS: "max_files: 2 > 1",
+    });
+    const report = buildRunReport();
+    expect(report).toMatchObject({
+      status: "success",
+      failed_step: null,
+      source: { type: "pr", number: 7, title: "Fix docs", pr_numbers: [] },
+      branch: "ai/pr-7-docs",
+      prompt: "Use ``` fences\n",
+      pr: { url: "https://github.com/acme/widgets/pull/8", number: 8 },
+      size_limit: { action: "draft", violations: ["max_files: 2 > 1"] },
+      steps: { prepare: "success", run: "success" },
+    });
+    expect(report.changes).toMatchObject({
+      files: [
+        { path: "README.md", additions: 2, deletions: 1, binary: false },
+        { path: "logo.png", additions: 0, deletions: 0, binary: true },
+      ],
+      changed_files: 2,
+      changed_lines: 3,
+    });
+  });
+
+  test("reports the first failed step", () => {
+    setEnv({ STEP_OUTCOMES: "prepare=success\nrun=failure\nverify=failure" });
+    expect(buildRunReport()).toMatchObject({
+      status: "failure",
+      failed_step: "run",
+    });
+
+    setEnv({ STEP_OUTCOMES: "run=cancelled" });
+    expect(buildRunReport().status).toBe("failure");
+
+    setEnv({ SKIPPED: "true", SOURCE_TYPE: "issue", ISSUE_NUMBER: "4" });
+    expect(buildRunReport()).toMatchObject({
+      status: "skipped",
+      source: { type: "issue", number: 4 },
+    });
+  });
+});
+
+describe("formatRunSummary", () => {
+  test("renders a table and folds the details", () => {
+    setEnv({
+      STEP_OUTCOMES: "run=success",
+      SOURCE_TYPE: "pr",
+      PR_NUMBER: "7",
+      SOURCE_TITLE: "Fix docs",
+      BASE_SHA: baseSha,
+      PROMPT_FILE: promptFile,
+      DRY_RUN: "true",
+    });
+    const summary = formatRunSummary(buildRunReport());
+    expect(summary).toStartWith(
+      [
+        "## AI automation",
+        "",
+        "| | |",
+        "| --- | --- |",
+        "| Status | ✅ Succeeded (dry run) |",
+        "| Source | PR [#7](https://github.com/acme/widgets/pull/7) Fix docs |",
+        "| Recipe | - |",
+      ].join("\n"),
+    );
+    // The fence is longer than the backticks in the prompt
+    expect(summary).toContain("````\nUse ``` fences\n````");
+    expect(summary).toContain("| `logo.png` | binary | |");
+  });
+
+  test("links the PRs of a batch", () => {
+    setEnv({
+      SOURCE_TYPE: "batch",
+      SOURCE_TITLE: "v1.0.0..v1.1.0",
+      PR_NUMBERS: "3,5",
+    });
+    expect(formatRunSummary(buildRunReport())).toContain(
+      "| Source | Batch v1.0.0..v1.1.0 ([#3](https://github.com/acme/widgets/pull/3), [#5](https://github.com/acme/widgets/pull/5)) |",
+    );
+  });
+});
@@ -0,0 +1,439 @@
+#!/usr/bin/env bun
+
+/**
+ * Writes the run report: a job summary for people and run-report.json for
+ * downstream jobs and dashboards. Runs at the end of every run, including
+ * failed ones, and reports whatever the earlier steps produced.
+ *
+ * run-report.json follows a versioned schema (RunReport below). Fields are
+ * only added within a schema version; renames and removals bump it.
+ */
+
+import * as core from "@actions/core";
+import { execFileSync } from "child_process";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { getProvider } from "./providers.ts";
+import { getRunUrl, getTargetRoot, parseList } from "./utils.ts";
+import { loadAttempts, type VerificationAttempt } from "./verification.ts";
+
+const RUN_REPORT_SCHEMA_VERSION = 1;
+
+// Keeps the job summary well below GitHub's 1 MiB limit
+const MAX_SUMMARY_PROMPT_LENGTH = 20000;
+
+export type RunStatus = "success" | "failure" | "skipped" | "awaiting_approval";
+
+export interface ChangedFileStat {
+  path: string;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+export interface RunReport {
+  schema_version: number;
+  status: RunStatus;
+  /** Whether the run only produced a patch instead of pushing */
+  dry_run: boolean;
+  /** ID of the first step that failed */
+  failed_step: string | null;
+  repository: string;
+  /** Repository the changes went to, when not the source repository */
+  target_repository: string | null;
+  run: { id: string; attempt: string; workflow: string; url: string };
+  /** A batch has no number; its title is the batch name */
+  source: {
+    type: "pr" | "issue" | "batch";
+    number: number | null;
+    title: string;
+    /** PRs of a batch */
+    pr_numbers: number[];
+  };
+  /** Recipe from the config file that ran */
+  recipe: string | null;
+  provider: string | null;
+  /** Usage the provider reported for the implementation run */
+  usage: {
+    input_tokens: number | null;
+    output_tokens: number | null;
+    cost_usd: number | null;
+    duration_ms: number | null;
+    turns: number | null;
+  } | null;
+  base_branch: string | null;
+  branch: string | null;
+  prompt: string | null;
+  plan: string | null;
+  changes: {
+    files: ChangedFileStat[];
+    changed_files: number;
+    changed_lines: number;
+    deleted_files: number;
+    diff_stat: string;
+    rejected_paths: string[];
+    undeclared_paths: string[];
+  };
+  size_limit: { action: string | null; violations: string[] };
+  verification: {
+    status: "passed" | "failed";
+    attempts: VerificationAttempt[];
+  } | null;
+  pr: { url: string; number: number | null } | null;
+  comment_url: string | null;
+  plan_comment_url: string | null;
+  patch_file: string | null;
+  /** Outcome of each step: success, failure, cancelled or skipped */
+  steps: Record<string, string>;
+}
+
+function env(name: string): string | null {
+  const value = (process.env[name] || "").trim();
+  return value ? value : null;
+}
+
+function envNumber(name: string): number | null {
+  const value = parseInt(process.env[name] || "", 10);
+  return isNaN(value) ? null : value;
+}
+
+/**
+ * Parses "step-id=outcome" lines; steps that never ran have an empty outcome
+ */
+function parseStepOutcomes(input: string | undefined): Record<string, string> {
+  const outcomes: Record<string, string> = {};
+  for (const line of (input || "").split("\n")) {
+    const [id = "", outcome = ""] = line.split("=").map((part) => part.trim());
+    if (id && outcome) {
+      outcomes[id] = outcome;
+    }
+  }
+  return outcomes;
+}
+
+function listChangedFiles(
+  repoRoot: string,
+  baseSha: string,
+): ChangedFileStat[] {
+  const output = execFileSync(
+    "git",
+    ["diff", "--numstat", "-z", "--no-renames", baseSha, "HEAD"],
+    { encoding: "utf-8", cwd: repoRoot },
+  );
+  return output
+    .split("\0")
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const [additions = "", deletions = "", ...path] = entry.split("\t");
+      // Binary files are reported as "-\t-"
+      const binary = additions === "-";
+      return {
+        path: path.join("\t"),
+        additions: binary ? 0 : parseInt(additions, 10),
+        deletions: binary ? 0 : parseInt(deletions, 10),
+        binary,
+      };
+    });
+}
+
+function collectUsage(provider: string | null): RunReport["usage"] {
+  if (!provider) {
+    return null;
+  }
+  try {
+    const usage = getProvider(provider).collectUsage({
+      planFile: "",
+      output: "",
+      outputFile: "",
+      executionFile: env("EXECUTION_FILE") || "",
+      usageFile: env("USAGE_FILE") || "",
+    });
+    return usage
+      ? {
+          input_tokens: usage.inputTokens,
+          output_tokens: usage.outputTokens,
+          cost_usd: usage.costUsd,
+          duration_ms: usage.durationMs,
+          turns: usage.turns,
+        }
+      : null;
+  } catch (error) {
+    console.warn(
+      `Failed to collect usage: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return null;
+  }
+}
+
+function resolveStatus(
+  failedStep: string | null,
+  steps: Record<string, string>,
+): RunStatus {
+  if (failedStep || Object.values(steps).includes("cancelled")) {
+    return "failure";
+  }
+  if (env("AWAITING_APPROVAL") === "true") {
+    return "awaiting_approval";
+  }
+  if (env("SKIPPED") === "true") {
+    return "skipped";
+  }
+  return "success";
+}
+
+export function buildRunReport(): RunReport {
+  const repoRoot = getTargetRoot();
+  const steps = parseStepOutcomes(process.env.STEP_OUTCOMES);
+  const failedStep =
+    Object.entries(steps).find(([, outcome]) => outcome === "failure")?.[0] ??
+    null;
+
+  // Every field is optional input, so a failed run reports what it got to
+  let files: ChangedFileStat[] = [];
+  const baseSha = env("BASE_SHA");
+  if (baseSha) {
+    try {
+      files = listChangedFiles(repoRoot, baseSha);
+    } catch (error) {
+      console.warn(
+        `Failed to list changed files: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  const promptFile = env("PROMPT_FILE");
+  const resultsFile = env("VERIFICATION_RESULTS_FILE");
+  const verificationStatus = env("VERIFICATION_STATUS");
+  const prUrl = env("PR_URL") || env("EXISTING_PR_URL");
+  const sourceEnv = env("SOURCE_TYPE");
+  const sourceType =
+    sourceEnv === "issue" || sourceEnv === "batch" ? sourceEnv : "pr";
+
+  return {
+    schema_version: RUN_REPORT_SCHEMA_VERSION,
+    status: resolveStatus(failedStep, steps),
+    dry_run: env("DRY_RUN") === "true",
+    failed_step: failedStep,
+    repository: env("REPOSITORY") || "",
+    target_repository: env("TARGET_REPOSITORY"),
+    run: {
+      id: process.env.GITHUB_RUN_ID || "",
+      attempt: process.env.GITHUB_RUN_ATTEMPT || "",
+      workflow: process.env.GITHUB_WORKFLOW || "",
+      url: getRunUrl(),
+    },
+    source: {
+      type: sourceType,
+      number: envNumber(sourceType === "issue" ? "ISSUE_NUMBER" : "PR_NUMBER"),
+      title: env("SOURCE_TITLE") || "",
+      pr_numbers: parseList(process.env.PR_NUMBERS).map((number) =>
+        parseInt(number, 10),
+      ),
+    },
+    recipe: env("RECIPE"),
+    provider: env("PROVIDER"),
+    usage: collectUsage(env("PROVIDER")),
+    base_branch: env("BASE_BRANCH"),
+    branch: env("BRANCH_NAME"),
+    prompt:
+      promptFile && existsSync(promptFile)
+        ? readFileSync(promptFile, "utf-8")
+        : null,
+    plan: env("PLAN"),
+    changes: {
+      files,
+      changed_files: envNumber("CHANGED_FILES") ?? files.length,
+      changed_lines: envNumber("CHANGED_LINES") ?? 0,
+      deleted_files: envNumber("DELETED_FILES") ?? 0,
+      diff_stat: env("DIFF_STAT") || "",
+      rejected_paths: parseList(process.env.REJECTED_PATHS),
+      undeclared_paths: parseList(process.env.UNDECLARED_PATHS),
+    },
+    size_limit: {
+      action: env("SIZE_LIMIT_ACTION"),
+      violations: parseList(process.env.SIZE_LIMIT_VIOLATIONS),
+    },
+    verification:
+      verificationStatus === "passed" || verificationStatus === "failed"
+        ? {
+            status: verificationStatus,
+            attempts: resultsFile ? loadAttempts(resultsFile) : [],
+          }
+        : null,
+    pr: prUrl ? { url: prUrl, number: envNumber("AI_PR_NUMBER") } : null,
+    comment_url: env("COMMENT_URL"),
+    plan_comment_url: env("PLAN_COMMENT_URL"),
+    patch_file: env("PATCH_FILE"),
+    steps,
+  };
+}
+
+/**
+ * Wraps text in a code fence longer than any backtick run inside it
+ */
+function fence(text: string): string {
+  const longest = Math.max(
+    2,
+    ...(text.match(/`+/g) || []).map((run) => run.length),
+  );
+  const marker = "`".repeat(longest + 1);
+  return `${marker}\n${text}\n${marker}`;
+}
+
+function details(summary: string, content: string): string[] {
+  return [
+    "<details>",
+    `<summary>${summary}</summary>`,
+    "",
+    content,
+    "",
+    "</details>",
+    "",
+  ];
+}
+
+const STATUS_TITLES: Record<RunStatus, string> = {
+  success: "✅ Succeeded",
+  failure: "❌ Failed",
+  skipped: "⏭️ Skipped",
+  awaiting_approval: "⏸️ Plan awaiting approval",
+};
+
+function formatUsage(usage: NonNullable<RunReport["usage"]>): string {
+  const parts = [];
+  if (usage.input_tokens !== null || usage.output_tokens !== null) {
+    parts.push(
+      `${usage.input_tokens ?? "?"} input / ${usage.output_tokens ?? "?"} output tokens`,
+    );
+  }
+  if (usage.cost_usd !== null) {
+    parts.push(`$${usage.cost_usd.toFixed(2)}`);
+  }
+  if (usage.turns !== null) {
+    parts.push(`${usage.turns} turn(s)`);
+  }
+  if (usage.duration_ms !== null) {
+    parts.push(`${Math.round(usage.duration_ms / 1000)}s`);
+  }
+  return parts.join(", ") || "-";
+}
+
+export function formatRunSummary(report: RunReport): string {
+  const serverUrl = process.env.GITHUB_SERVER_URL || "https://github.com";
+  const source =
+    report.source.type === "batch"
+      ? `Batch ${report.source.title} (${report.source.pr_numbers.map((number) => `[#${number}](${serverUrl}/${report.repository}/pull/${number})`).join(", ")})`
+      : report.source.number !== null
+        ? `${report.source.type === "issue" ? "Issue" : "PR"} [#${report.source.number}](${serverUrl}/${report.repository}/${report.source.type === "issue" ? "issues" : "pull"}/${report.source.number})${report.source.title ? ` ${report.source.title}` : ""}`
+        : "-";
+  const rows: Array<[string, string]> = [
+    [
+      "Status",
+      `${STATUS_TITLES[report.status]}${report.dry_run ? " (dry run)" : ""}`,
+    ],
+    ["Source", source],
+    ["Recipe", report.recipe ? `\`${report.recipe}\`` : "-"],
+    ["Provider", report.provider ? `\`${report.provider}\`` : "-"],
+    ["Branch", report.branch ? `\`${report.branch}\`` : "-"],
+  ];
+  if (report.usage) {
+    rows.push(["Usage", formatUsage(report.usage)]);
+  }
+  if (report.failed_step) {
+    rows.push(["Failed step", `\`${report.failed_step}\``]);
+  }
+  if (report.pr) {
+    rows.push(["Pull request", report.pr.url]);
+  }
+  if (report.comment_url) {
+    rows.push(["Suggestion comment", report.comment_url]);
+  }
+  if (report.plan_comment_url) {
+    rows.push(["Plan comment", report.plan_comment_url]);
+  }
+  if (report.verification) {
+    rows.push([
+      "Verification",
+      `${report.verification.status} (${report.verification.attempts.length} attempt(s))`,
+    ]);
+  }
+  if (report.size_limit.action) {
+    rows.push([
+      "Size limits",
+      `${report.size_limit.action}: ${report.size_limit.violations.join(", ")}`,
+    ]);
+  }
+
+  const lines = [
+    "## AI automation",
+    "",
+    "| | |",
+    "| --- | --- |",
+    ...rows.map(([name, value]) => `| ${name} | ${value} |`),
+    "",
+  ];
+
+  if (report.prompt) {
+    const truncated = report.prompt.length > MAX_SUMMARY_PROMPT_LENGTH;
+    const shown = truncated
+      ? `${report.prompt.slice(0, MAX_SUMMARY_PROMPT_LENGTH)}\n[... prompt truncated, see run-report.json]`
+      : report.prompt;
+    lines.push(...details("Prompt", fence(shown.trimEnd())));
+  }
+  if (report.plan) {
+    lines.push(...details("Plan", report.plan));
+  }
+  if (report.changes.files.length > 0) {
+    const table = [
+      "| File | + | - |",
+      "| --- | ---: | ---: |",
+      ...report.changes.files.map((file) =>
+        file.binary
+          ? `| \`${file.path}\` | binary | |`
+          : `| \`${file.path}\` | ${file.additions} | ${file.deletions} |`,
+      ),
+    ].join("\n");
+    lines.push(
+      ...details(`Changed files (${report.changes.files.length})`, table),
+    );
+  }
+  if (report.verification && report.verification.attempts.length > 0) {
+    const attempts = report.verification.attempts
+      .map(
+        (attempt) =>
+          `- Attempt ${attempt.attempt}: ${attempt.passed ? "✅" : "❌"} ${attempt.commands
+            .map(
+              (result) =>
+                `\`${result.command}\` (exit code ${result.exitCode}, ${Math.round(result.durationMs / 1000)}s)`,
+            )
+            .join(", ")}`,
+      )
+      .join("\n");
+    lines.push(...details("Verification", attempts));
+  }
+  return lines.join("\n");
+}
+
+async function main() {
+  try {
+    const report = buildRunReport();
+    const reportFile = `${process.env.RUNNER_TEMP || "/tmp"}/run-report.json`;
+    writeFileSync(reportFile, JSON.stringify(report, null, 2));
+    core.setOutput("report_file", reportFile);
+    console.log(
+      `Run report written to ${reportFile} (status: ${report.status})`,
+    );
+
+    if (process.env.GITHUB_STEP_SUMMARY) {
+      await core.summary.addRaw(formatRunSummary(report)).write();
+    }
+  } catch (error) {
+    // The report is informational and never fails the run
+    console.warn(
+      `Failed to write the run report: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+if (import.meta.main) {
+  main();
+}
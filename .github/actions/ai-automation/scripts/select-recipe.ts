@@ -0,0 +1,250 @@
+#!/usr/bin/env bun
+
+/**
+ * Picks the recipe from the repository config for this run: the one named
+ * by the recipe input, or the first one whose match rules fit the source
+ * PR, issue or batch. Outputs the inputs the recipe sets, or skip=true when
+ * no recipe matches. Without a config file, the action inputs are used as
+ * they are. Also reads the templates the *_template_file inputs point to.
+ */
+
+import * as core from "@actions/core";
+import { Octokit } from "@octokit/rest";
+import {
+  findConfigFile,
+  loadConfig,
+  matchesRecipe,
+  type MatchContext,
+  type Recipe,
+} from "./config.ts";
+import {
+  getApiUrl,
+  getErrorMessage,
+  parseList,
+  parseRepository,
+  readWorkspaceFile,
+} from "./utils.ts";
+
+interface Source {
+  type: "pr" | "issue" | "batch";
+  numbers: number[];
+}
+
+function readSource(): Source {
+  const type = process.env.SOURCE_TYPE;
+  if (type === "batch") {
+    return {
+      type,
+      numbers: parseList(process.env.PR_NUMBERS).map((entry) =>
+        parseInt(entry, 10),
+      ),
+    };
+  }
+  const number = parseInt(
+    (type === "issue" ? process.env.ISSUE_NUMBER : process.env.PR_NUMBER) || "",
+    10,
+  );
+  return {
+    type: type === "issue" ? "issue" : "pr",
+    numbers: isNaN(number) ? [] : [number],
+  };
+}
+
+function describeSource(source: Source): string {
+  const numbers = source.numbers.map((number) => `#${number}`).join(", ");
+  return source.type === "batch"
+    ? `batch ${numbers}`
+    : `${source.type === "issue" ? "issue" : "PR"} ${numbers}`;
+}
+
+/**
+ * Collects the changed files, labels, base branch and authors of the source.
+ * A batch matches on all of its PRs together.
+ */
+async function buildMatchContext(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  source: Source,
+): Promise<MatchContext> {
+  const context: MatchContext = {
+    files: [],
+    labels: [],
+    baseBranch: process.env.BASE_BRANCH || "",
+    authors: [],
+  };
+  for (const number of source.numbers) {
+    if (source.type === "issue") {
+      const { data: issue } = await octokit.rest.issues.get({
+        owner,
+        repo,
+        issue_number: number,
+      });
+      context.labels.push(
+        ...issue.labels.map((label) =>
+          typeof label === "string" ? label : label.name || "",
+        ),
+      );
+      context.authors.push(issue.user?.login || "");
+      continue;
+    }
+
+    const { data: pr } = await octokit.rest.pulls.get({
+      owner,
+      repo,
+      pull_number: number,
+    });
+    context.labels.push(...pr.labels.map((label) => label.name));
+    context.authors.push(pr.user.login);
+    if (source.type === "pr") {
+      context.baseBranch = pr.base.ref;
+    }
+    const files = await octokit.paginate(octokit.rest.pulls.listFiles, {
+      owner,
+      repo,
+      pull_number: number,
+      per_page: 100,
+    });
+    for (const file of files) {
+      context.files.push(file.filename);
+      if (file.previous_filename) {
+        context.files.push(file.previous_filename);
+      }
+    }
+  }
+
+  if (!context.baseBranch) {
+    const { data } = await octokit.rest.repos.get({ owner, repo });
+    context.baseBranch = data.default_branch;
+  }
+  return context;
+}
+
+/**
+ * Reads a file a recipe points to, e.g. prompt_file. It must be inside the
+ * workspace, also after following symlinks.
+ */
+function readRecipeFile(repoRoot: string, recipe: Recipe, path: string) {
+  try {
+    return readWorkspaceFile(repoRoot, path);
+  } catch (error) {
+    throw new Error(`Recipe ${recipe.name}: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Outputs the templates the *_template_file inputs point to, for the inputs
+ * the recipe doesn't set
+ */
+function outputTemplateFiles(repoRoot: string, recipe: Recipe | null) {
+  const templateFiles: Record<string, string> = {
+    prompt_template: process.env.PROMPT_TEMPLATE_FILE || "",
+    plan_prompt_template: process.env.PLAN_PROMPT_TEMPLATE_FILE || "",
+    pr_body_template: process.env.PR_BODY_TEMPLATE_FILE || "",
+  };
+  for (const [input, file] of Object.entries(templateFiles)) {
+    const path = file.trim();
+    if (
+      !path ||
+      (recipe && (input in recipe.inputs || input in recipe.files))
+    ) {
+      continue;
+    }
+    try {
+      core.setOutput(input, readWorkspaceFile(repoRoot, path));
+    } catch (error) {
+      throw new Error(`${input}_file: ${getErrorMessage(error)}`);
+    }
+  }
+}
+
+async function main() {
+  try {
+    const repoRoot = process.env.GITHUB_WORKSPACE || process.cwd();
+    const configFile = findConfigFile(
+      repoRoot,
+      (process.env.CONFIG_FILE || "").trim(),
+    );
+    core.setOutput("skip", "false");
+    if (!configFile) {
+      console.log("No config file, using the action inputs");
+      outputTemplateFiles(repoRoot, null);
+      return;
+    }
+    const config = loadConfig(repoRoot, configFile);
+
+    const requested = (process.env.RECIPE || "").trim();
+    let candidates = config.recipes;
+    if (requested) {
+      candidates = config.recipes.filter((recipe) => recipe.name === requested);
+      if (candidates.length === 0) {
+        throw new Error(
+          `Unknown recipe: ${requested}. ${configFile} defines ${config.recipes.map((recipe) => `'${recipe.name}'`).join(", ")}`,
+        );
+      }
+    }
+
+    // Only look the source up when a match rule needs it
+    const source = readSource();
+    let context: MatchContext = {
+      files: [],
+      labels: [],
+      baseBranch: "",
+      authors: [],
+    };
+    if (candidates.some((recipe) => recipe.match)) {
+      const githubToken = process.env.GITHUB_TOKEN;
+      if (!githubToken) {
+        throw new Error("GITHUB_TOKEN environment variable is required");
+      }
+      const { owner, repo } = parseRepository(process.env.REPOSITORY || "");
+      context = await buildMatchContext(
+        new Octokit({ auth: githubToken, baseUrl: getApiUrl() }),
+        owner,
+        repo,
+        source,
+      );
+    }
+
+    const matched = candidates.filter((recipe) =>
+      matchesRecipe(recipe, context),
+    );
+    core.setOutput(
+      "matched_recipes",
+      matched.map((recipe) => recipe.name).join(","),
+    );
+    const recipe = matched[0];
+    if (!recipe) {
+      console.log(
+        `No recipe in ${configFile} matches ${describeSource(source)}, skipping`,
+      );
+      core.setOutput("skip", "true");
+      return;
+    }
+    if (matched.length > 1) {
+      console.log(
+        `Recipes ${matched.map((other) => other.name).join(", ")} match; running the first one. Set recipe to run another.`,
+      );
+    }
+
+    console.log(
+      `Using recipe ${recipe.name} from ${configFile}${recipe.description ? `: ${recipe.description}` : ""}`,
+    );
+    core.setOutput("name", recipe.name);
+    for (const [input, value] of Object.entries(recipe.inputs)) {
+      core.setOutput(input, value);
+    }
+    for (const [input, path] of Object.entries(recipe.files)) {
+      core.setOutput(input, readRecipeFile(repoRoot, recipe, path));
+    }
+    outputTemplateFiles(repoRoot, recipe);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    core.setFailed(`Failed to select a recipe: ${errorMessage}`);
+    process.exit(1);
+  }
+}
+
+if (import.meta.main) {
+  main();
+}
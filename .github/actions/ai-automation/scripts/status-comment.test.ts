@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  formatStatus,
+  resolveDonePhase,
+  type Phase,
+} from "./status-comment.ts";
+
+const savedEnv = { ...process.env };
+
+// Outside Actions, the run link and the step outcome variables are unset
+function setEnv(env: Record<string, string>) {
+  process.env = { PATH: savedEnv.PATH, ...env };
+}
+
+afterEach(() => {
+  process.env = { ...savedEnv };
+});
+
+describe("resolveDonePhase", () => {
+  test("reports the outcome of the run", () => {
+    const cases: Array<[Record<string, string>, Phase]> = [
+      [{ AWAITING_APPROVAL: "true", PR_URL: "x" }, "awaiting-approval"],
+      [{ SKIPPED: "true" }, "skipped"],
+      [{ SIZE_LIMIT_ACTION: "patch", PR_URL: "x" }, "patch"],
+      [{ COMMENT_URL: "x", OUTPUT_MODE: "comment" }, "suggested"],
+      [{ PR_URL: "x", OUTPUT_MODE: "push-to-source" }, "pushed"],
+      [{ PR_URL: "x", OUTPUT_MODE: "pr" }, "pr-opened"],
+      [{}, "no-changes"],
+    ];
+    for (const [env, phase] of cases) {
+      setEnv(env);
+      expect(resolveDonePhase()).toBe(phase);
+    }
+  });
+});
+
+describe("formatStatus", () => {
+  test("links the PR and the run", () => {
+    setEnv({
+      PR_URL: "https://github.com/acme/widgets/pull/8",
+      PROVIDER: "claude",
+      GITHUB_REPOSITORY: "acme/widgets",
+      GITHUB_RUN_ID: "42",
+    });
+    expect(formatStatus("pr-opened")).toBe(
+      [
+        "### AI automation: PR opened",
+        "",
+        "The changes are in https://github.com/acme/widgets/pull/8.",
+        "",
+        "- **Provider:** `claude`",
+        "- **Run:** [42](https://github.com/acme/widgets/actions/runs/42)",
+      ].join("\n"),
+    );
+  });
+
+  test("folds the plan and the diffstat, cutting long plans", () => {
+    setEnv({
+      PLAN: `1. ${"x".repeat(4000)}`,
+      DIFF_STAT: " README.md | 2 +-\n",
+    });
+    const status = formatStatus("implementing");
+    expect(status).toStartWith(
+      "### AI automation: Implementing\n\nThe AI assistant is implementing the changes.\n",
+    );
+    expect(status).toContain("<summary>Plan</summary>");
+    expect(status).toContain("\n\n[... plan truncated]\n");
+    expect(status).toEndWith(
+      "<summary>Changes</summary>\n\n```\nREADME.md | 2 +-\n```\n\n</details>",
+    );
+  });
+
+  test("points at the run when it has no link", () => {
+    setEnv({});
+    expect(formatStatus("failed")).toContain(
+      "The run failed. See the workflow run for details.",
+    );
+  });
+});
@@ -0,0 +1,193 @@
+#!/usr/bin/env bun
+
+/**
+ * Maintains a sticky status comment on the source PR or issue, updated at
+ * each phase of the run: started, plan ready, implementing, and the outcome
+ * (PR opened, awaiting plan approval, no changes, skipped or failed).
+ */
+
+import { Octokit } from "@octokit/rest";
+import { formatCommentMarker, upsertMarkedComment } from "./comments.ts";
+import { getApiUrl, getRunUrl, parseRepository } from "./utils.ts";
+
+// Longer plans are cut so the comment stays readable
+const MAX_PLAN_LENGTH = 3000;
+
+export type Phase =
+  | "started"
+  | "plan-ready"
+  | "awaiting-approval"
+  | "implementing"
+  | "pr-opened"
+  | "pushed"
+  | "suggested"
+  | "patch"
+  | "no-changes"
+  | "skipped"
+  | "failed";
+
+const PHASE_TITLES: Record<Phase, string> = {
+  started: "Started",
+  "plan-ready": "Plan ready",
+  "awaiting-approval": "Plan awaiting approval",
+  implementing: "Implementing",
+  "pr-opened": "PR opened",
+  pushed: "Changes pushed",
+  suggested: "Changes suggested",
+  patch: "Changes exceed the size limits",
+  "no-changes": "No changes",
+  skipped: "Skipped",
+  failed: "Failed",
+};
+
+/**
+ * Works out the final phase from the outcome of the run
+ */
+export function resolveDonePhase(): Phase {
+  if (process.env.AWAITING_APPROVAL === "true") {
+    return "awaiting-approval";
+  }
+  if (process.env.SKIPPED === "true") {
+    return "skipped";
+  }
+  if (process.env.SIZE_LIMIT_ACTION === "patch") {
+    return "patch";
+  }
+  if (process.env.COMMENT_URL) {
+    return "suggested";
+  }
+  if (process.env.PR_URL) {
+    return process.env.OUTPUT_MODE === "push-to-source"
+      ? "pushed"
+      : "pr-opened";
+  }
+  return "no-changes";
+}
+
+function describePhase(phase: Phase, runUrl: string): string {
+  const log = runUrl ? `[workflow run](${runUrl})` : "workflow run";
+  switch (phase) {
+    case "started":
+      return "The AI assistant is preparing the prompt.";
+    case "plan-ready":
+      return "The plan is ready; implementation follows.";
+    case "awaiting-approval":
+      return `The [plan](${process.env.PLAN_COMMENT_URL}) needs approval before it is implemented.`;
+    case "implementing":
+      return "The AI assistant is implementing the changes.";
+    case "pr-opened":
+      return `The changes are in ${process.env.PR_URL}.`;
+    case "pushed":
+      return "The changes were pushed to this PR.";
+    case "suggested":
+      return `The changes could not be pushed and were posted as a [patch comment](${process.env.COMMENT_URL}).`;
+    case "patch":
+      return `No PR was opened. Download the patch from the ${log}.`;
+    case "no-changes":
+      return "The AI assistant made no changes.";
+    case "skipped":
+      return `${process.env.EXISTING_PR_URL || "The AI PR"} was already generated from the current head.`;
+    case "failed":
+      return `The run failed. See the ${log} for details.`;
+  }
+}
+
+export function formatStatus(phase: Phase): string {
+  const runUrl = getRunUrl();
+  const lines = [
+    `### AI automation: ${PHASE_TITLES[phase]}`,
+    "",
+    describePhase(phase, runUrl),
+    "",
+  ];
+  const provider = process.env.PROVIDER;
+  if (provider) {
+    lines.push(`- **Provider:** \`${provider}\``);
+  }
+  if (runUrl) {
+    lines.push(`- **Run:** [${process.env.GITHUB_RUN_ID}](${runUrl})`);
+  }
+
+  const plan = (process.env.PLAN || "").trim();
+  if (plan) {
+    const shownPlan =
+      plan.length > MAX_PLAN_LENGTH
+        ? `${plan.slice(0, MAX_PLAN_LENGTH)}\n\n[... plan truncated]`
+        : plan;
+    lines.push(
+      "",
+      "<details>",
+      "<summary>Plan</summary>",
+      "",
+      shownPlan,
+      "",
+      "</details>",
+    );
+  }
+
+  const diffStat = (process.env.DIFF_STAT || "").trim();
+  if (diffStat) {
+    lines.push(
+      "",
+      "<details>",
+      "<summary>Changes</summary>",
+      "",
+      "```",
+      diffStat,
+      "```",
+      "",
+      "</details>",
+    );
+  }
+  return lines.join("\n");
+}
+
+async function main() {
+  try {
+    const githubToken = process.env.GITHUB_TOKEN;
+    if (!githubToken) {
+      throw new Error("GITHUB_TOKEN environment variable is required");
+    }
+    const { owner, repo } = parseRepository(process.env.REPOSITORY || "");
+    const issueNumber = parseInt(
+      (process.env.SOURCE_TYPE === "issue"
+        ? process.env.ISSUE_NUMBER
+        : process.env.PR_NUMBER) || "",
+      10,
+    );
+    if (isNaN(issueNumber)) {
+      console.log("No source PR or issue, skipping status comment");
+      return;
+    }
+
+    const requested = process.env.STATUS_PHASE || "started";
+    const phase =
+      requested === "done" ? resolveDonePhase() : (requested as Phase);
+    if (!(phase in PHASE_TITLES)) {
+      throw new Error(`Unknown status phase: ${requested}`);
+    }
+
+    // Each automation keeps its own status comment on the source
+    const key =
+      process.env.STATUS_KEY || process.env.GITHUB_WORKFLOW || "default";
+    const octokit = new Octokit({ auth: githubToken, baseUrl: getApiUrl() });
+    const comment = await upsertMarkedComment(
+      octokit,
+      owner,
+      repo,
+      issueNumber,
+      formatCommentMarker("status", key),
+      formatStatus(phase),
+    );
+    console.log(`Status comment (${phase}): ${comment.html_url}`);
+  } catch (error) {
+    // The status comment is informational and never fails the run
+    console.warn(
+      `Failed to update status comment: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+if (import.meta.main) {
+  main();
+}
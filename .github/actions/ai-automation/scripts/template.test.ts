@@ -0,0 +1,201 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, mkdirSync, rmSync, symlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { renderTemplate, stringifyValue } from "./template.ts";
+
+describe("renderTemplate", () => {
+  test("replaces variables and dot paths", () => {
+    expect(
+      renderTemplate("PR #{{PR_NUMBER}} by {{author.login}}", {
+        PR_NUMBER: 12,
+        author: { login: "octocat" },
+      }),
+    ).toBe("PR #12 by octocat");
+  });
+
+  test("leaves unknown variables as-is unless strict", () => {
+    expect(renderTemplate("Hi {{NAME}}", {})).toBe("Hi {{NAME}}");
+    expect(() => renderTemplate("Hi {{NAME}}", {}, { strict: true })).toThrow(
+      'Unknown template variable "NAME"',
+    );
+  });
+
+  test("outputs escaped tags literally", () => {
+    expect(renderTemplate("\\{{NAME}}", { NAME: "x" })).toBe("{{NAME}}");
+  });
+
+  test("renders conditionals with else branches", () => {
+    const template = "{{#if BODY}}has body{{else}}no body{{/if}}";
+    expect(renderTemplate(template, { BODY: "text" })).toBe("has body");
+    expect(renderTemplate(template, { BODY: "  " })).toBe("no body");
+    expect(renderTemplate(template, {}, { strict: true })).toBe("no body");
+    expect(
+      renderTemplate("{{#unless LIST}}empty{{/unless}}", { LIST: [] }),
+    ).toBe("empty");
+  });
+
+  test("loops over lists with item fields and loop variables", () => {
+    expect(
+      renderTemplate(
+        "{{#each FILES}}{{@index}}:{{path}}{{#unless @last}}, {{/unless}}{{/each}}",
+        { FILES: [{ path: "a.ts" }, { path: "b.ts" }] },
+      ),
+    ).toBe("0:a.ts, 1:b.ts");
+    expect(
+      renderTemplate("{{#each LABELS}}[{{this}}]{{else}}none{{/each}}", {
+        LABELS: [],
+      }),
+    ).toBe("none");
+  });
+
+  test("applies filters left to right", () => {
+    expect(
+      renderTemplate('{{TITLE | trim | truncate: 5, "…"}}', {
+        TITLE: "  A long title ",
+      }),
+    ).toBe("A lon…");
+    expect(renderTemplate("{{LINES | indent: 2}}", { LINES: "a\n\nb" })).toBe(
+      "  a\n\n  b",
+    );
+    expect(renderTemplate('{{ITEMS | join: " + "}}', { ITEMS: [1, 2] })).toBe(
+      "1 + 2",
+    );
+    expect(renderTemplate("{{VALUE | json}}", { VALUE: { a: 1 } })).toBe(
+      '{"a":1}',
+    );
+    expect(
+      renderTemplate('{{CHANGED | glob: "src/**", "!**/*.test.ts"}}', {
+        CHANGED: "src/a.ts\nsrc/a.test.ts\nREADME.md",
+      }),
+    ).toBe("src/a.ts");
+  });
+
+  test("applies default for unknown variables in any filter position", () => {
+    expect(renderTemplate('{{BODY | default: "none"}}', {})).toBe("none");
+    expect(
+      renderTemplate('{{BODY | trim | default: "none"}}', {}, { strict: true }),
+    ).toBe("none");
+    expect(
+      renderTemplate('{{BODY | trim | default: "none"}}', { BODY: " " }),
+    ).toBe("none");
+  });
+
+  test("rejects unknown filters in strict mode", () => {
+    expect(() =>
+      renderTemplate("{{NAME | shout}}", { NAME: "x" }, { strict: true }),
+    ).toThrow('Unknown template filter "shout"');
+  });
+
+  test("passes malformed tags through in non-strict mode", () => {
+    const template = 'a {{ not valid }} {{"key": 1}} {{NAME | shout}} b';
+    expect(renderTemplate(template, { NAME: "x" })).toBe(template);
+    expect(() =>
+      renderTemplate("{{ not valid }}", {}, { strict: true }),
+    ).toThrow("Invalid template expression");
+  });
+
+  test("rejects unclosed blocks", () => {
+    expect(() => renderTemplate("{{#if A}}x", {})).toThrow(
+      "Unclosed {{#if}} block",
+    );
+  });
+
+  test("passes a stray {{else}} through in non-strict mode", () => {
+    expect(renderTemplate("a {{else}} b", {})).toBe("a {{else}} b");
+    expect(renderTemplate("{{#if A}}x{{else}}y{{else}}z{{/if}}", {})).toBe(
+      "y{{else}}z",
+    );
+    expect(() => renderTemplate("a {{else}} b", {}, { strict: true })).toThrow(
+      "Unexpected {{else}}",
+    );
+  });
+
+  test("passes unmatched closing tags through in non-strict mode", () => {
+    expect(renderTemplate("a {{/if}} {{/each}} b", {})).toBe(
+      "a {{/if}} {{/each}} b",
+    );
+    expect(renderTemplate("{{#if A}}x{{/each}}{{/if}}", { A: "1" })).toBe(
+      "x{{/each}}",
+    );
+    expect(() => renderTemplate("{{/if}}", {}, { strict: true })).toThrow(
+      "Unexpected {{/if}}",
+    );
+    expect(() =>
+      renderTemplate("{{#if A}}x{{/each}}{{/if}}", {}, { strict: true }),
+    ).toThrow("Unexpected {{/each}} in template, expected {{/if}}");
+  });
+
+  test("only looks up own properties", () => {
+    expect(renderTemplate("{{obj.constructor}}", { obj: {} })).toBe(
+      "{{obj.constructor}}",
+    );
+    expect(renderTemplate("{{NAME | constructor}}", { NAME: "x" })).toBe(
+      "{{NAME | constructor}}",
+    );
+  });
+
+  test("fences untrusted variables, also inside loops", () => {
+    const options = { untrusted: ["PR_BODY", "COMMITS.message"] };
+    expect(renderTemplate("{{PR_BODY}}", { PR_BODY: "hi" }, options)).toBe(
+      '<untrusted_input source="PR_BODY">hi</untrusted_input>',
+    );
+    expect(
+      renderTemplate(
+        "{{#each COMMITS}}{{sha}} {{message}}{{/each}}",
+        { COMMITS: [{ sha: "abc", message: "fix" }] },
+        options,
+      ),
+    ).toBe(
+      'abc <untrusted_input source="COMMITS.message">fix</untrusted_input>',
+    );
+    expect(renderTemplate("{{PR_BODY}}", { PR_BODY: "" }, options)).toBe("");
+  });
+});
+
+describe("FILE directives", () => {
+  const workspace = mkdtempSync(join(tmpdir(), "template-test-"));
+  const outside = mkdtempSync(join(tmpdir(), "template-test-outside-"));
+  mkdirSync(join(workspace, "docs"));
+  writeFileSync(join(workspace, "docs", "STYLE.md"), "one\ntwo\nthree\n");
+  writeFileSync(join(outside, "secret.md"), "secret");
+  symlinkSync(join(outside, "secret.md"), join(workspace, "link.md"));
+
+  afterAll(() => {
+    rmSync(workspace, { recursive: true, force: true });
+    rmSync(outside, { recursive: true, force: true });
+  });
+
+  test("includes workspace files and their first lines", () => {
+    expect(
+      renderTemplate("{{FILE:docs/STYLE.md | trim}}", {}, { workspace }),
+    ).toBe("one\ntwo\nthree");
+    expect(
+      renderTemplate("{{FILE_HEAD:docs/STYLE.md:2}}", {}, { workspace }),
+    ).toBe("one\ntwo");
+  });
+
+  test("refuses files outside the workspace", () => {
+    expect(() =>
+      renderTemplate("{{FILE:../etc/passwd}}", {}, { workspace }),
+    ).toThrow("outside the workspace");
+    expect(() => renderTemplate("{{FILE:link.md}}", {}, { workspace })).toThrow(
+      "outside the workspace",
+    );
+    expect(() =>
+      renderTemplate("{{FILE:missing.md}}", {}, { workspace }),
+    ).toThrow("not found in the workspace");
+  });
+});
+
+describe("stringifyValue", () => {
+  test("puts plain list items on their own lines", () => {
+    expect(stringifyValue(["a", "b"])).toBe("a\nb");
+  });
+
+  test("renders objects as JSON and empty values as nothing", () => {
+    expect(stringifyValue({ a: 1 })).toBe('{\n  "a": 1\n}');
+    expect(stringifyValue(null)).toBe("");
+    expect(stringifyValue(undefined)).toBe("");
+  });
+});
@@ -0,0 +1,616 @@
+#!/usr/bin/env bun
+
+/**
+ * Template engine shared by prompt and PR text rendering.
+ *
+ * Syntax:
+ *   {{NAME}}                              variable (dot paths: {{file.path}})
+ *   {{NAME | filter: arg, arg}}           filters, applied left to right
+ *   {{#if NAME}}...{{else}}...{{/if}}     conditional ({{#unless}} is the inverse)
+ *   {{#each NAME}}...{{else}}...{{/each}} loop; {{this}}, {{@index}}, {{@first}},
+ *                                         {{@last}} and item fields are in scope
+ *   {{FILE:docs/STYLE.md}}                contents of a file in the workspace
+ *   {{FILE_HEAD:CHANGELOG.md:50}}         its first 50 lines; both take filters
+ *   \{{                                   literal "{{"
+ *
+ * Filters: default, truncate, indent, json, glob, join, trim.
+ *
+ * Values of untrusted variables are fenced where they are output, also
+ * inside loops over them and when output as part of a larger value.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { fenceUntrusted } from "./untrusted.ts";
+import { matchesAnyGlob, readWorkspaceFile } from "./utils.ts";
+
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | TemplateValue[]
+  | { [key: string]: TemplateValue };
+
+export type TemplateVariables = Record<string, TemplateValue>;
+
+export interface RenderOptions {
+  /** Fail on unknown variables and malformed tags instead of leaving them as-is */
+  strict?: boolean;
+  /** Directory FILE and FILE_HEAD paths are relative to and confined to */
+  workspace?: string;
+  /**
+   * Variable paths holding untrusted text, e.g. "PR_BODY" or
+   * "PR_COMMITS.message" for a field of list items
+   */
+  untrusted?: string[];
+}
+
+interface Filter {
+  name: string;
+  args: Array<string | number>;
+}
+
+interface Expression {
+  path: string;
+  filters: Filter[];
+}
+
+interface FileDirective {
+  path: string;
+  /** Number of leading lines to include, or null for the whole file */
+  lines: number | null;
+  filters: Filter[];
+}
+
+type Node =
+  | { type: "text"; value: string }
+  | { type: "output"; expr: Expression; raw: string }
+  | { type: "file"; file: FileDirective }
+  | {
+      type: "if" | "unless" | "each";
+      expr: Expression;
+      body: Node[];
+      alternate: Node[];
+    };
+
+type BlockType = "if" | "unless" | "each";
+
+interface Scope {
+  values: Record<string, TemplateValue>;
+  item?: TemplateValue;
+  /** Variable path of the list a loop scope iterates over */
+  path?: string;
+}
+
+interface Lookup {
+  found: boolean;
+  value: TemplateValue;
+  /** Variable path of the value, with loop variables expanded */
+  path: string;
+}
+
+const TAG_PATTERN = /\\\{\{|\{\{([\s\S]*?)\}\}/g;
+
+/**
+ * Splits a string on a separator, ignoring separators inside quotes
+ */
+function splitOutsideQuotes(input: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  for (const char of input) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (quote) {
+    throw new Error(`Unterminated string in template expression: ${input}`);
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseArgument(raw: string): string | number {
+  const arg = raw.trim();
+  const quoted = arg.match(/^(["'])([\s\S]*)\1$/);
+  if (quoted) {
+    return (quoted[2] ?? "").replace(/\\n/g, "\n").replace(/\\t/g, "\t");
+  }
+  if (/^-?\d+(\.\d+)?$/.test(arg)) {
+    return Number(arg);
+  }
+  return arg;
+}
+
+function parseFilters(filterParts: string[], source: string): Filter[] {
+  return filterParts.map((part) => {
+    const colon = part.indexOf(":");
+    const name = (colon === -1 ? part : part.slice(0, colon)).trim();
+    if (!Object.hasOwn(FILTERS, name)) {
+      throw new Error(`Unknown template filter "${name}" in {{${source}}}`);
+    }
+    const args =
+      colon === -1
+        ? []
+        : splitOutsideQuotes(part.slice(colon + 1), ",").map(parseArgument);
+    return { name, args };
+  });
+}
+
+function parseExpression(source: string): Expression {
+  const [pathPart = "", ...filterParts] = splitOutsideQuotes(source, "|");
+  const path = pathPart.trim();
+  if (!/^(@?[A-Za-z_][\w-]*)(\.[A-Za-z_][\w-]*)*$/.test(path)) {
+    throw new Error(`Invalid template expression: {{${source}}}`);
+  }
+  return { path, filters: parseFilters(filterParts, source) };
+}
+
+/**
+ * Parses {{FILE:path}} and {{FILE_HEAD:path:lines}}, or returns null for
+ * other tags
+ */
+function parseFileDirective(source: string): FileDirective | null {
+  const [directive = "", ...filterParts] = splitOutsideQuotes(source, "|");
+  const match = directive.trim().match(/^(FILE|FILE_HEAD):([\s\S]*)$/);
+  if (!match) {
+    return null;
+  }
+  let path = (match[2] ?? "").trim();
+  let lines: number | null = null;
+  if (match[1] === "FILE_HEAD") {
+    const head = path.match(/^([\s\S]*):\s*(\d+)$/);
+    if (!head) {
+      throw new Error(
+        `Invalid template directive {{${source}}}, expected {{FILE_HEAD:path:lines}}`,
+      );
+    }
+    path = (head[1] ?? "").trim();
+    lines = parseInt(head[2] ?? "0", 10);
+  }
+  if (!path) {
+    throw new Error(`Missing file path in {{${source}}}`);
+  }
+  return { path, lines, filters: parseFilters(filterParts, source) };
+}
+
+/**
+ * Parses a template into a tree of text, output and block nodes. A malformed
+ * tag, or an {{else}} or closing tag without a matching block, is an error in
+ * strict mode and literal text otherwise. An unclosed block is always an error.
+ */
+function parse(template: string, strict: boolean): Node[] {
+  const root: Node[] = [];
+  const stack: Array<{
+    type: BlockType;
+    expr: Expression;
+    body: Node[];
+    alternate: Node[];
+    inElse: boolean;
+  }> = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    if (!top) {
+      return root;
+    }
+    return top.inElse ? top.alternate : top.body;
+  };
+  const parseTag = <T>(parseSource: () => T): T | null => {
+    try {
+      return parseSource();
+    } catch (error) {
+      if (strict) {
+        throw error;
+      }
+      return null;
+    }
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      current().push({ type: "text", value: template.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    if (match[0] === "\\{{") {
+      current().push({ type: "text", value: "{{" });
+      continue;
+    }
+
+    const tag = (match[1] ?? "").trim();
+    const open = tag.match(/^#(if|unless|each)\s+([\s\S]+)$/);
+    if (open) {
+      const expr = parseTag(() => parseExpression(open[2] ?? ""));
+      if (!expr) {
+        current().push({ type: "text", value: match[0] });
+        continue;
+      }
+      stack.push({
+        type: open[1] as BlockType,
+        expr,
+        body: [],
+        alternate: [],
+        inElse: false,
+      });
+      continue;
+    }
+
+    if (tag === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        if (strict) {
+          throw new Error("Unexpected {{else}} in template");
+        }
+        current().push({ type: "text", value: match[0] });
+        continue;
+      }
+      top.inElse = true;
+      continue;
+    }
+
+    const close = tag.match(/^\/(if|unless|each)$/);
+    if (close) {
+      const top = stack[stack.length - 1];
+      if (!top || top.type !== close[1]) {
+        if (strict) {
+          throw new Error(
+            `Unexpected {{/${close[1]}}} in template${top ? `, expected {{/${top.type}}}` : ""}`,
+          );
+        }
+        current().push({ type: "text", value: match[0] });
+        continue;
+      }
+      stack.pop();
+      const { inElse: _inElse, ...block } = top;
+      current().push(block);
+      continue;
+    }
+
+    // A malformed FILE directive falls through and fails as an expression
+    const file = parseTag(() => parseFileDirective(tag));
+    if (file) {
+      current().push({ type: "file", file });
+      continue;
+    }
+
+    const expr = parseTag(() => parseExpression(tag));
+    current().push(
+      expr
+        ? { type: "output", expr, raw: match[0] }
+        : { type: "text", value: match[0] },
+    );
+  }
+
+  if (lastIndex < template.length) {
+    current().push({ type: "text", value: template.slice(lastIndex) });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new Error(`Unclosed {{#${unclosed.type}}} block in template`);
+  }
+
+  return root;
+}
+
+/**
+ * Converts a value to its textual form: lists of plain values become one
+ * item per line, objects and lists of objects become pretty-printed JSON
+ */
+export function stringifyValue(value: TemplateValue): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    if (value.some((item) => item !== null && typeof item === "object")) {
+      return JSON.stringify(value, null, 2);
+    }
+    return value.map(stringifyValue).join("\n");
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value, null, 2);
+  }
+  return String(value);
+}
+
+function isEmpty(value: TemplateValue): boolean {
+  if (Array.isArray(value)) {
+    return value.length === 0;
+  }
+  if (typeof value === "string") {
+    return value.trim().length === 0;
+  }
+  return (
+    value === null || value === undefined || value === false || value === 0
+  );
+}
+
+function numberArg(filter: Filter, index: number, fallback: number): number {
+  const arg = filter.args[index];
+  if (arg === undefined) {
+    return fallback;
+  }
+  if (typeof arg !== "number" || arg < 0) {
+    throw new Error(
+      `Filter "${filter.name}" expects a non-negative number, got "${arg}"`,
+    );
+  }
+  return arg;
+}
+
+const FILTERS: Record<
+  string,
+  (value: TemplateValue, filter: Filter) => TemplateValue
+> = {
+  default: (value, filter) =>
+    isEmpty(value) ? String(filter.args[0] ?? "") : value,
+
+  truncate: (value, filter) => {
+    const text = stringifyValue(value);
+    const length = numberArg(filter, 0, 1000);
+    const suffix = String(filter.args[1] ?? "...");
+    return text.length > length ? text.slice(0, length) + suffix : text;
+  },
+
+  indent: (value, filter) => {
+    const padding = " ".repeat(numberArg(filter, 0, 2));
+    return stringifyValue(value)
+      .split("\n")
+      .map((line) => (line.length > 0 ? padding + line : line))
+      .join("\n");
+  },
+
+  json: (value, filter) =>
+    JSON.stringify(value ?? null, null, numberArg(filter, 0, 0) || undefined),
+
+  glob: (value, filter) => {
+    const patterns = filter.args.map(String);
+    if (patterns.length === 0) {
+      throw new Error('Filter "glob" requires at least one pattern');
+    }
+    const keep = (item: TemplateValue) => {
+      const path =
+        item && typeof item === "object" && !Array.isArray(item)
+          ? item.path
+          : item;
+      return typeof path === "string" && matchesAnyGlob(path, patterns);
+    };
+    if (Array.isArray(value)) {
+      return value.filter(keep);
+    }
+    return stringifyValue(value)
+      .split("\n")
+      .filter((line) => line.length > 0 && keep(line))
+      .join("\n");
+  },
+
+  join: (value, filter) =>
+    Array.isArray(value)
+      ? value.map(stringifyValue).join(String(filter.args[0] ?? ", "))
+      : value,
+
+  trim: (value) => stringifyValue(value).trim(),
+};
+
+class Renderer {
+  private readonly scopes: Scope[];
+
+  constructor(
+    variables: TemplateVariables,
+    private readonly options: RenderOptions,
+  ) {
+    this.scopes = [{ values: variables }];
+  }
+
+  render(nodes: Node[]): string {
+    let output = "";
+    for (const node of nodes) {
+      switch (node.type) {
+        case "text":
+          output += node.value;
+          break;
+        case "output": {
+          const { found, value, path } = this.evaluate(node.expr);
+          // Unknown variables are left untouched in non-strict mode
+          if (!found) {
+            output += node.raw;
+          } else if (this.isUntrusted(path)) {
+            output += fenceUntrusted(path, stringifyValue(value));
+          } else {
+            output += stringifyValue(value);
+          }
+          break;
+        }
+        case "file":
+          output += stringifyValue(this.readFile(node.file));
+          break;
+        case "if":
+        case "unless": {
+          // Conditionals test for presence, so unknown variables are
+          // falsy rather than an error even in strict mode
+          const truthy = !isEmpty(this.evaluate(node.expr, true).value);
+          const branch =
+            truthy === (node.type === "if") ? node.body : node.alternate;
+          output += this.render(branch);
+          break;
+        }
+        case "each": {
+          const { value, path } = this.evaluate(node.expr);
+          const items = Array.isArray(value)
+            ? value
+            : isEmpty(value)
+              ? []
+              : [value];
+          if (items.length === 0) {
+            output += this.render(node.alternate);
+            break;
+          }
+          items.forEach((item, index) => {
+            const fields =
+              item && typeof item === "object" && !Array.isArray(item)
+                ? item
+                : {};
+            this.scopes.push({
+              item,
+              path,
+              values: {
+                ...fields,
+                "@index": index,
+                "@first": index === 0,
+                "@last": index === items.length - 1,
+              },
+            });
+            try {
+              output += this.render(node.body);
+            } finally {
+              this.scopes.pop();
+            }
+          });
+          break;
+        }
+      }
+    }
+    return output;
+  }
+
+  private evaluate(expr: Expression, optional = false): Lookup {
+    let { found, value, path } = this.lookup(expr.path);
+    if (!found) {
+      const hasDefault = expr.filters.some(
+        (filter) => filter.name === "default",
+      );
+      if (this.options.strict && !hasDefault && !optional) {
+        throw new Error(`Unknown template variable "${expr.path}"`);
+      }
+      if (!hasDefault) {
+        return { found, value: undefined, path };
+      }
+      found = true;
+    }
+    for (const filter of expr.filters) {
+      const apply = FILTERS[filter.name];
+      if (apply) {
+        value = apply(value, filter);
+      }
+    }
+    return { found, value, path };
+  }
+
+  /**
+   * Whether a value is untrusted text, part of it, or contains some
+   */
+  private isUntrusted(path: string): boolean {
+    return (this.options.untrusted ?? []).some(
+      (untrusted) =>
+        path === untrusted ||
+        path.startsWith(`${untrusted}.`) ||
+        untrusted.startsWith(`${path}.`),
+    );
+  }
+
+  private readFile(file: FileDirective): TemplateValue {
+    const { workspace } = this.options;
+    if (!workspace) {
+      throw new Error(
+        `Can't read ${file.path}: this template has no workspace to read files from`,
+      );
+    }
+    let value: TemplateValue;
+    try {
+      value = readWorkspaceFile(workspace, file.path);
+    } catch (error) {
+      throw new Error(
+        `Template file ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    if (file.lines !== null) {
+      value = value.split("\n").slice(0, file.lines).join("\n");
+    }
+    for (const filter of file.filters) {
+      const apply = FILTERS[filter.name];
+      if (apply) {
+        value = apply(value, filter);
+      }
+    }
+    return value;
+  }
+
+  private lookup(path: string): Lookup {
+    const [head = "", ...rest] = path.split(".");
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const scope = this.scopes[i];
+      if (!scope) {
+        continue;
+      }
+      let value: TemplateValue;
+      let fullPath = path;
+      if (head === "this" && "item" in scope) {
+        value = scope.item;
+        fullPath = [scope.path ?? "", ...rest].join(".");
+      } else if (Object.hasOwn(scope.values, head)) {
+        value = scope.values[head];
+        if (scope.path && !head.startsWith("@")) {
+          fullPath = `${scope.path}.${path}`;
+        }
+      } else {
+        continue;
+      }
+      for (const key of rest) {
+        if (
+          !value ||
+          typeof value !== "object" ||
+          Array.isArray(value) ||
+          !Object.hasOwn(value, key)
+        ) {
+          return { found: false, value: undefined, path: fullPath };
+        }
+        value = value[key];
+      }
+      return { found: true, value, path: fullPath };
+    }
+    return { found: false, value: undefined, path };
+  }
+}
+
+/**
+ * Renders a template with the given variables
+ */
+export function renderTemplate(
+  template: string,
+  variables: TemplateVariables,
+  options: RenderOptions = {},
+): string {
+  return new Renderer(variables, options).render(
+    parse(template, options.strict ?? false),
+  );
+}
+
+/**
+ * Loads the template variables written by prepare-prompt, if available
+ */
+export function loadVariablesFile(path: string | undefined): TemplateVariables {
+  if (!path || !existsSync(path)) {
+    return {};
+  }
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as TemplateVariables;
+  } catch (error) {
+    throw new Error(
+      `Failed to read template variables from ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { getTargetRepository, getTargetRoot } from "./utils.ts";
+
+const savedEnv = { ...process.env };
+
+function setEnv(env: Record<string, string>) {
+  process.env = { PATH: savedEnv.PATH, ...env };
+}
+
+afterEach(() => {
+  process.env = { ...savedEnv };
+});
+
+describe("target repository", () => {
+  test("defaults to the source repository", () => {
+    setEnv({ REPOSITORY: "acme/widgets", GITHUB_WORKSPACE: "/work" });
+    expect(getTargetRepository()).toBe("acme/widgets");
+    expect(getTargetRoot()).toBe("/work");
+  });
+
+  test("is checked out inside the workspace", () => {
+    setEnv({
+      REPOSITORY: "acme/widgets",
+      TARGET_REPOSITORY: "acme/docs",
+      GITHUB_WORKSPACE: "/work",
+      TARGET_PATH: ".ai-target",
+    });
+    expect(getTargetRepository()).toBe("acme/docs");
+    expect(getTargetRoot()).toBe("/work/.ai-target");
+  });
+
+  test("falls back to the working directory outside Actions", () => {
+    setEnv({ TARGET_PATH: "target" });
+    expect(getTargetRoot()).toBe(`${process.cwd()}/target`);
+  });
+});
@@ -4,27 +4,49 @@
  * Shared utility functions used across multiple scripts
  */
 
+import { existsSync, readFileSync, realpathSync, statSync } from "fs";
+import { join, resolve, sep } from "path";
+
 /**
- * Substitutes variables in a template string
- * Replaces {{VARIABLE_NAME}} with values from the variables object
- */
-export function substituteVariables(
-  template: string,
-  variables: Record<string, string>,
-): string {
-  let result = template;
-  for (const [key, value] of Object.entries(variables)) {
-    const regex = new RegExp(`\\{\\{${key}\\}\\}`, "g");
-    // Use function replacement to prevent interpretation of special dollar-sign patterns
-    result = result.replace(regex, () => value);
+ * Checks a path against glob patterns. Patterns without a slash also match
+ * the file name in any directory, a trailing slash matches everything below
+ * that directory, and a leading "!" excludes paths matched by earlier patterns.
+ */
+export function matchesAnyGlob(path: string, patterns: string[]): boolean {
+  let matched = false;
+  for (const rawPattern of patterns) {
+    const negated = rawPattern.startsWith("!");
+    let pattern = negated ? rawPattern.slice(1) : rawPattern;
+    if (pattern.endsWith("/")) {
+      pattern += "**";
+    }
+    if (!pattern.includes("/")) {
+      pattern = `**/${pattern}`;
+    }
+    if (new Bun.Glob(pattern).match(path)) {
+      matched = !negated;
+    }
   }
-  return result;
+  return matched;
+}
+
+/**
+ * Parses a newline- or comma-separated input into a list of trimmed entries
+ */
+export function parseList(input: string | undefined): string[] {
+  return (input || "")
+    .split(/[\n,]/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
 }
 
 /**
  * Parses repository string into owner and repo
  */
-export function parseRepository(repository: string): { owner: string; repo: string } {
+export function parseRepository(repository: string): {
+  owner: string;
+  repo: string;
+} {
   const [owner, repo] = repository.split("/");
   if (!owner || !repo) {
     throw new Error(
@@ -34,6 +56,44 @@ export function parseRepository(repository: string): { owner: string; repo: stri
   return { owner, repo };
 }
 
+/**
+ * Gets the repository the AI changes go to: target_repository when set,
+ * otherwise the source repository
+ */
+export function getTargetRepository(): string {
+  return process.env.TARGET_REPOSITORY || process.env.REPOSITORY || "";
+}
+
+/**
+ * Gets the root of the checkout the AI changes go to. The target repository
+ * is checked out in TARGET_PATH inside the source repository's workspace.
+ */
+export function getTargetRoot(): string {
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+  const targetPath = process.env.TARGET_PATH;
+  return targetPath ? join(workspace, targetPath) : workspace;
+}
+
+/**
+ * Reads a file by its path relative to a checkout. Paths that lead outside
+ * the checkout, also through symlinks, are refused.
+ */
+export function readWorkspaceFile(root: string, path: string): string {
+  const base = realpathSync(resolve(root));
+  const fullPath = resolve(base, path);
+  const isInside = (candidate: string) => candidate.startsWith(base + sep);
+  if (!isInside(fullPath)) {
+    throw new Error(`${path} is outside the workspace`);
+  }
+  if (!existsSync(fullPath) || !statSync(fullPath).isFile()) {
+    throw new Error(`${path} not found in the workspace`);
+  }
+  if (!isInside(realpathSync(fullPath))) {
+    throw new Error(`${path} is outside the workspace`);
+  }
+  return readFileSync(fullPath, "utf-8");
+}
+
 /**
  * Gets GitHub API URL from environment
  */
@@ -41,6 +101,18 @@ export function getApiUrl(): string {
   return process.env.GITHUB_API_URL || "https://api.github.com";
 }
 
+/**
+ * Gets the URL of the current workflow run, or an empty string outside Actions
+ */
+export function getRunUrl(): string {
+  const runId = process.env.GITHUB_RUN_ID;
+  const repository = process.env.GITHUB_REPOSITORY;
+  if (!runId || !repository) {
+    return "";
+  }
+  return `${process.env.GITHUB_SERVER_URL || "https://github.com"}/${repository}/actions/runs/${runId}`;
+}
+
 /**
  * Standardized error handling for scripts
  * Logs error message for use with core.setFailed() in calling code
@@ -49,3 +121,34 @@ export function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : String(error);
 }
 
+/**
+ * Reads the HTTP status of a failed API request, if the error carries one
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  if (
+    error instanceof Error &&
+    "status" in error &&
+    typeof error.status === "number"
+  ) {
+    return error.status;
+  }
+  return undefined;
+}
+
+const SOURCE_SHA_MARKER = /<!-- github-ai-actions:source-sha=([0-9a-f]+) -->/;
+
+/**
+ * Formats the hidden marker recording which source head SHA an AI PR was generated from
+ */
+export function formatSourceShaMarker(sha: string): string {
+  return `<!-- github-ai-actions:source-sha=${sha} -->`;
+}
+
+/**
+ * Reads the source head SHA marker from a PR body, if present
+ */
+export function parseSourceShaMarker(
+  body: string | null | undefined,
+): string | null {
+  return body?.match(SOURCE_SHA_MARKER)?.[1] ?? null;
+}
@@ -0,0 +1,197 @@
+#!/usr/bin/env bun
+
+/**
+ * Verification of the AI assistant's changes: runs the configured commands,
+ * records each attempt and builds the repair prompt and PR body report
+ */
+
+import { spawnSync } from "child_process";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import {
+  fenceUntrusted,
+  hasFencedInput,
+  UNTRUSTED_INPUT_PREAMBLE,
+} from "./untrusted.ts";
+
+/**
+ * Attempts are unrolled into separate workflow steps, so the number of
+ * repair runs has a fixed upper bound
+ */
+export const MAX_VERIFY_ATTEMPTS = 3;
+
+/** Output kept per command, from the end where errors usually are */
+const MAX_OUTPUT_LENGTH = 10000;
+
+export type VerifyFailureAction = "draft" | "fail" | "push";
+
+export interface CommandResult {
+  command: string;
+  exitCode: number;
+  durationMs: number;
+  output: string;
+}
+
+export interface VerificationAttempt {
+  attempt: number;
+  passed: boolean;
+  commands: CommandResult[];
+}
+
+/**
+ * Parses verify_commands: one command per line, so commands may contain commas
+ */
+export function parseVerifyCommands(input: string | undefined): string[] {
+  return (input || "")
+    .split("\n")
+    .map((command) => command.trim())
+    .filter((command) => command.length > 0 && !command.startsWith("#"));
+}
+
+export function parseVerifyMaxAttempts(input: string | undefined): number {
+  const value = (input || "").trim();
+  if (!value) {
+    return 1;
+  }
+  const attempts = parseInt(value, 10);
+  if (!/^\d+$/.test(value) || attempts < 1 || attempts > MAX_VERIFY_ATTEMPTS) {
+    throw new Error(
+      `Invalid verify_max_attempts: ${input}. Expected a number from 1 to ${MAX_VERIFY_ATTEMPTS}`,
+    );
+  }
+  return attempts;
+}
+
+export function parseVerifyFailureAction(
+  input: string | undefined,
+): VerifyFailureAction {
+  const action = (input || "draft").trim();
+  if (action !== "draft" && action !== "fail" && action !== "push") {
+    throw new Error(
+      `Invalid verify_failure_action: ${input}. Expected 'draft', 'fail' or 'push'`,
+    );
+  }
+  return action;
+}
+
+function tail(output: string, maxLength: number): string {
+  return output.length > maxLength
+    ? `[... output truncated]\n${output.slice(-maxLength)}`
+    : output;
+}
+
+/**
+ * Runs the commands in order and stops at the first failure
+ */
+export function runVerifyCommands(
+  repoRoot: string,
+  commands: string[],
+): CommandResult[] {
+  const results: CommandResult[] = [];
+  for (const command of commands) {
+    console.log(`Running: ${command}`);
+    const start = Date.now();
+    // Merge stderr into stdout for the whole command, pipelines included
+    const result = spawnSync("bash", ["-c", `exec 2>&1\n${command}`], {
+      cwd: repoRoot,
+      encoding: "utf-8",
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    const output = `${result.stdout || ""}${result.error ? String(result.error) : ""}`;
+    const exitCode = result.status ?? 1;
+    results.push({
+      command,
+      exitCode,
+      durationMs: Date.now() - start,
+      output: tail(output.trimEnd(), MAX_OUTPUT_LENGTH),
+    });
+    console.log(output.trimEnd());
+    if (exitCode !== 0) {
+      console.warn(`${command} failed with exit code ${exitCode}`);
+      break;
+    }
+  }
+  return results;
+}
+
+export function loadAttempts(file: string): VerificationAttempt[] {
+  if (!existsSync(file)) {
+    return [];
+  }
+  return JSON.parse(readFileSync(file, "utf-8"));
+}
+
+export function saveAttempts(file: string, attempts: VerificationAttempt[]) {
+  writeFileSync(file, JSON.stringify(attempts, null, 2));
+}
+
+/**
+ * Appends the failing command and its output to the original prompt, so the
+ * assistant can fix the changes it left in the working tree. With fence, the
+ * output is fenced as untrusted input, since it can echo text from the
+ * changed code or its tests.
+ */
+export function buildRepairPrompt(
+  prompt: string,
+  attempt: VerificationAttempt,
+  fence: boolean,
+): string {
+  const failed = attempt.commands.find((result) => result.exitCode !== 0);
+  if (!failed) {
+    return prompt;
+  }
+  const output = fence
+    ? fenceUntrusted("VERIFICATION_OUTPUT", failed.output)
+    : `<verification_output>\n${failed.output}\n</verification_output>`;
+  const preamble =
+    fence && output && !hasFencedInput(prompt)
+      ? `${UNTRUSTED_INPUT_PREAMBLE}\n\n`
+      : "";
+  return `${preamble}${prompt.trimEnd()}
+
+You already made changes for this task, but they fail verification. \`${failed.command}\` exited with code ${failed.exitCode}:
+${output}
+
+Fix the problems so that the verification commands pass. Keep the changes you already made unless they cause the failure.`;
+}
+
+/**
+ * Renders the verification results for the PR body
+ */
+export function formatVerificationReport(
+  attempts: VerificationAttempt[],
+): string {
+  const last = attempts[attempts.length - 1];
+  if (!last) {
+    return "";
+  }
+  const summary = last.passed
+    ? `Verification passed${attempts.length > 1 ? ` after ${attempts.length} attempts` : ""}.`
+    : `Verification failed after ${attempts.length} attempt(s).`;
+  const lines = ["### Verification", "", summary, ""];
+  for (const attempt of attempts) {
+    const commands = attempt.commands
+      .map(
+        (result) =>
+          `\`${result.command}\` ${result.exitCode === 0 ? "passed" : `failed (exit code ${result.exitCode})`}`,
+      )
+      .join(", ");
+    lines.push(
+      `- Attempt ${attempt.attempt}: ${attempt.passed ? "✅" : "❌"} ${commands}`,
+    );
+  }
+  const failed = last.commands.find((result) => result.exitCode !== 0);
+  if (failed) {
+    lines.push(
+      "",
+      "<details>",
+      `<summary>Output of <code>${failed.command}</code></summary>`,
+      "",
+      "```",
+      tail(failed.output, 3000),
+      "```",
+      "",
+      "</details>",
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,87 @@
+#!/usr/bin/env bun
+
+/**
+ * Runs verify_commands against the AI assistant's changes. Each run is one
+ * attempt; when it fails and attempts are left, it outputs a repair prompt
+ * for the next AI run. After the last failed attempt, verify_failure_action
+ * decides whether the run fails or the changes are committed anyway.
+ */
+
+import * as core from "@actions/core";
+import {
+  buildRepairPrompt,
+  loadAttempts,
+  parseVerifyCommands,
+  parseVerifyFailureAction,
+  parseVerifyMaxAttempts,
+  runVerifyCommands,
+  saveAttempts,
+} from "./verification.ts";
+import { getTargetRoot } from "./utils.ts";
+
+async function main() {
+  try {
+    const commands = parseVerifyCommands(process.env.VERIFY_COMMANDS);
+    if (commands.length === 0) {
+      console.log("No verify commands, skipping verification");
+      return;
+    }
+    const maxAttempts = parseVerifyMaxAttempts(process.env.VERIFY_MAX_ATTEMPTS);
+    const failureAction = parseVerifyFailureAction(
+      process.env.VERIFY_FAILURE_ACTION,
+    );
+    const attempt = parseInt(process.env.VERIFY_ATTEMPT || "1", 10);
+    const repoRoot = getTargetRoot();
+    const resultsFile = `${process.env.RUNNER_TEMP || "/tmp"}/ai-verification.json`;
+
+    // Results from earlier attempts in this run are kept in the same file
+    const attempts = attempt > 1 ? loadAttempts(resultsFile) : [];
+    const results = runVerifyCommands(repoRoot, commands);
+    const current = {
+      attempt,
+      passed: results.every((result) => result.exitCode === 0),
+      commands: results,
+    };
+    attempts.push(current);
+    saveAttempts(resultsFile, attempts);
+    core.setOutput("results_file", resultsFile);
+    core.setOutput("status", current.passed ? "passed" : "failed");
+
+    if (current.passed) {
+      console.log(`Verification passed on attempt ${attempt}`);
+      core.setOutput("repair", "false");
+      return;
+    }
+    if (attempt < maxAttempts) {
+      console.log(
+        `Verification failed on attempt ${attempt} of ${maxAttempts}, asking the AI assistant to fix it`,
+      );
+      core.setOutput("repair", "true");
+      core.setOutput(
+        "repair_prompt",
+        buildRepairPrompt(
+          process.env.PROMPT || "",
+          current,
+          process.env.FENCE_UNTRUSTED_INPUT !== "false",
+        ),
+      );
+      return;
+    }
+
+    core.setOutput("repair", "false");
+    if (failureAction === "fail") {
+      throw new Error(`Verification failed after ${attempt} attempt(s)`);
+    }
+    console.warn(
+      `Verification failed after ${attempt} attempt(s), action: ${failureAction}`,
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    core.setFailed(`Failed to verify changes: ${errorMessage}`);
+    process.exit(1);
+  }
+}
+
+if (import.meta.main) {
+  main();
+}